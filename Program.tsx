@@ -1,18 +1,21 @@
 // GlobeAtlas — Interactive travel map in a single React file
 // -----------------------------------------------------------
 // Quick start:
-// 1) Add your Mapbox access token below (get one at https://account.mapbox.com)
-// 2) Drop this file into a React project (or run in the Canvas preview)
+// 1) Set MAPBOX_TOKEN (get one at https://account.mapbox.com), or use the tokenless MapLibre engine (MAP_CONFIG)
+// 2) Drop this file into a React project with Tailwind + shadcn/ui and install its packages:
+//    npm install mapbox-gl maplibre-gl pmtiles topojson-client world-atlas framer-motion lucide-react
 // 3) Pan/zoom the map, add pins, and build simple trip routes. Data is saved to localStorage.
 //
 // Notes:
 // - Comments are in English, per user preference.
-// - UI uses Tailwind + shadcn/ui conventions; all imports are available in this environment.
-// - No backend required; you can later replace the storage layer with your own API.
+// - UI uses Tailwind + shadcn/ui conventions (card, button, input, textarea, select, tabs, badge,
+//   scroll-area, separator and checkbox under @/components/ui).
+// - No backend required. Storage is pluggable (localStorage, IndexedDB or a REST API), see STORAGE_CONFIG.
+// - Open tabs share edits live; point SYNC_CONFIG at a WebSocket relay to sync other devices too.
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import mapboxgl from "mapbox-gl";
-import "mapbox-gl/dist/mapbox-gl.css";
+import { feature } from "topojson-client";
+import worldCountries from "world-atlas/countries-110m.json";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -23,10 +26,32 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { MapPin, RouteIcon, Plus, Trash2, Save, Undo2, Redo2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MapPin, RouteIcon, Plus, Trash2, Save, Pencil, Wand2, CalendarDays, Eye, EyeOff, Share2, Play, Pause, Tags, Search, Star, CheckCheck, Wallet, Coins, Paperclip, Image as ImageIcon, FileText, Undo2, Redo2, History as HistoryIcon, ArrowDownUp, Download, Layers, GripVertical, LocateFixed, X } from "lucide-react";
 
 // ==== Configuration ====
-mapboxgl.accessToken = process.env.MAPBOX_TOKEN || "YOUR_MAPBOX_ACCESS_TOKEN_HERE"; // <-- replace
+const MAPBOX_TOKEN = process.env.MAPBOX_TOKEN || ""; // needed by the "mapbox" map engine and geocoder only
+
+// Map engine: "mapbox" (needs MAPBOX_TOKEN) or "maplibre", which needs no token and renders any
+// style JSON. For offline maps, point styleUrl at a style whose sources are a local tile server or
+// pmtiles:// archives (MapLibre only), or set tileUrl to a raster {z}/{x}/{y} template or archive.
+// A custom style or tile URL becomes the "Custom" base style and is shown first.
+const MAP_CONFIG = {
+  engine: process.env.GLOBEATLAS_MAP_ENGINE || "mapbox",
+  styleUrl: process.env.GLOBEATLAS_STYLE_URL || "",
+  tileUrl: process.env.GLOBEATLAS_TILE_URL || "",
+  tileAttribution: process.env.GLOBEATLAS_TILE_ATTRIBUTION || "",
+  glyphsUrl: process.env.GLOBEATLAS_GLYPHS_URL || "", // fonts for raster styles; defaults to the engine's
+  labelFont: null // font stack for cluster counts and stop numbers; must exist on the style's glyph server
+};
+
+// Where the atlas is persisted: "indexeddb" (default), "localStorage" or "rest".
+// The REST backend expects `GET {restUrl}/atlas` (200 with the document, or 404 when empty)
+// and `PUT {restUrl}/atlas` with a JSON body, so any small mock server will do.
+const STORAGE_CONFIG = {
+  backend: process.env.GLOBEATLAS_STORAGE || "indexeddb",
+  restUrl: process.env.GLOBEATLAS_API_URL || "http://localhost:8787"
+};
 
 // ==== Types (JSDoc for clarity) ====
 /**
@@ -34,9 +59,22 @@ mapboxgl.accessToken = process.env.MAPBOX_TOKEN || "YOUR_MAPBOX_ACCESS_TOKEN_HER
  * @property {string} id
  * @property {string} title
  * @property {string} description
- * @property {string} category // e.g., food | museum | nature | stay | other
+ * @property {string} category // key into the category registry (Category.key)
  * @property {string} date // ISO string (yyyy-mm-dd)
  * @property {number[]} lngLat // [lng, lat]
+ * @property {string} [address] // filled from reverse geocoding, editable
+ * @property {string[]} [attachmentIds] // photos/files stored in IndexedDB (see attachmentStore)
+ * @property {string} status // wishlist | planned | visited (see PIN_STATUSES)
+ * @property {number} [rating] // 1-5
+ * @property {string[]} [tags]
+ * @property {PinLink[]} [links]
+ * @property {Expense[]} [expenses] // see Budgets & expenses
+ */
+
+/**
+ * @typedef {Object} PinLink
+ * @property {string} url // http(s) only
+ * @property {string} [label]
  */
 
 /**
@@ -44,41 +82,495 @@ mapboxgl.accessToken = process.env.MAPBOX_TOKEN || "YOUR_MAPBOX_ACCESS_TOKEN_HER
  * @property {string} id
  * @property {string} name
  * @property {string[]} pinIds // ordered pins composing the path
+ * @property {string} color // hex, line and stop badges on the map
+ * @property {string} [travelMode] // straight (default) | walk | drive | transit
+ * @property {string} [startDate] // yyyy-mm-dd
+ * @property {string} [endDate] // yyyy-mm-dd
+ * @property {Object<string, StopTimes>} [schedule] // pinId -> arrival/departure (see Itinerary)
+ * @property {TripBudget} [budget]
+ */
+
+/**
+ * @typedef {Object} Category
+ * @property {string} key // stable id stored on pins
+ * @property {string} label
+ * @property {string} color // hex, used by map layers and UI dots
+ * @property {string} icon // emoji, so it renders in popups and the sidebar alike
  */
 
 // ==== Local storage helpers ====
 const LS_KEYS = {
-  pins: "globeatlas:pins",
-  trips: "globeatlas:trips",
-  history: "globeatlas:history", // for undo/redo
-  future: "globeatlas:future"
+  atlas: "globeatlas:atlas",
+  pins: "globeatlas:pins", // legacy (schema version 0)
+  trips: "globeatlas:trips", // legacy (schema version 0)
+  history: "globeatlas:history", // legacy undo snapshots, removed on load
+  future: "globeatlas:future", // legacy redo snapshots, removed on load
+  sync: "globeatlas:sync", // tab-to-tab messages where BroadcastChannel is missing
+  baseStyle: "globeatlas:base-style"
 };
 
-const loadJSON = (k, def) => {
-  try { return JSON.parse(localStorage.getItem(k) || "") ?? def; } catch { return def; }
+// ==== History (undo/redo) ====
+// Edits are recorded as small invertible operations instead of full snapshots, so the
+// history stays cheap in memory and never touches storage.
+const HISTORY_CONFIG = {
+  depth: 100, // oldest entries are dropped beyond this
+  groupWindowMs: 1000 // edits with the same group key within this window merge into one entry
 };
-const saveJSON = (k, v) => localStorage.setItem(k, JSON.stringify(v));
-
-// Simple history stack for undo/redo
-const pushHistory = (state) => {
-  const hist = loadJSON(LS_KEYS.history, []);
-  hist.push(state);
-  saveJSON(LS_KEYS.history, hist);
-  // clear future on new action
-  saveJSON(LS_KEYS.future, []);
-};
-const popHistory = () => {
-  const hist = loadJSON(LS_KEYS.history, []);
-  return hist.pop();
+
+/**
+ * @typedef {Object} HistoryEntry
+ * @property {string} label // e.g. "Deleted pin Helsinki Cathedral"
+ * @property {Object[]} ops // applied in order; undone in reverse
+ * @property {string} [groupKey]
+ * @property {number} at
+ */
+
+const insertAt = (list, index, item) => [...list.slice(0, index), item, ...list.slice(index)];
+const mapTrip = (atlas, tripId, fn) => ({ ...atlas, trips: atlas.trips.map(t => t.id === tripId ? fn(t) : t) });
+
+// Trip stop ops place a stop after the stop recorded before it (`after`, null for the first
+// slot) rather than at a bare index, so undo still lands in the right place once a synced edit
+// from another device has reordered the trip. The index is only used when that stop is gone.
+const stopAfter = (pinIds, pinId, index) => index > 0 ? pinIds.filter(id => id !== pinId)[index - 1] ?? null : null;
+function placeStop(pinIds, pinId, after, index) {
+  const rest = pinIds.filter(id => id !== pinId);
+  const anchor = after === null ? 0 : rest.indexOf(after) + 1;
+  return insertAt(rest, anchor > 0 || after === null ? anchor : Math.min(index, rest.length), pinId);
+}
+
+export function applyOp(atlas, op) {
+  switch (op.type) {
+    case "batch": return op.ops.reduce((a, o) => applyOp(a, o), atlas);
+    case "pin/add": return { ...atlas, pins: insertAt(atlas.pins, op.index, op.pin) };
+    case "pin/remove": return { ...atlas, pins: atlas.pins.filter(p => p.id !== op.pin.id) };
+    case "pin/update": return { ...atlas, pins: atlas.pins.map(p => p.id === op.id ? { ...p, ...op.after } : p) };
+    case "trip/add": return { ...atlas, trips: insertAt(atlas.trips, op.index, op.trip) };
+    case "trip/remove": return { ...atlas, trips: atlas.trips.filter(t => t.id !== op.trip.id) };
+    case "trip/update": return mapTrip(atlas, op.id, t => ({ ...t, ...op.after }));
+    case "category/add": return { ...atlas, categories: insertAt(atlas.categories, op.index, op.category) };
+    case "category/remove": return { ...atlas, categories: atlas.categories.filter(c => c.key !== op.category.key) };
+    case "category/update": return { ...atlas, categories: atlas.categories.map(c => c.key === op.key ? { ...c, ...op.after } : c) };
+    case "currency/add": return { ...atlas, currencies: insertAt(atlas.currencies, op.index, op.currency) };
+    case "currency/remove": return { ...atlas, currencies: atlas.currencies.filter(c => c.code !== op.currency.code) };
+    case "currency/update": return { ...atlas, currencies: atlas.currencies.map(c => c.code === op.code ? { ...c, ...op.after } : c) };
+    case "trip/addPin": return mapTrip(atlas, op.tripId, t => ({ ...t, pinIds: placeStop(t.pinIds, op.pinId, op.after, op.index) }));
+    case "trip/removePin": return mapTrip(atlas, op.tripId, t => ({ ...t, pinIds: t.pinIds.filter(id => id !== op.pinId) }));
+    case "trip/movePin": return mapTrip(atlas, op.tripId, t =>
+      t.pinIds.includes(op.pinId) ? { ...t, pinIds: placeStop(t.pinIds, op.pinId, op.toAfter, op.to) } : t);
+    default: throw new Error(`Unknown history operation: ${op.type}`);
+  }
+}
+
+export function invertOp(op) {
+  switch (op.type) {
+    case "batch": return { type: "batch", ops: op.ops.map(invertOp).reverse() };
+    case "pin/add": return { ...op, type: "pin/remove" };
+    case "pin/remove": return { ...op, type: "pin/add" };
+    case "pin/update": return { ...op, before: op.after, after: op.before };
+    case "trip/add": return { ...op, type: "trip/remove" };
+    case "trip/remove": return { ...op, type: "trip/add" };
+    case "trip/update": return { ...op, before: op.after, after: op.before };
+    case "category/add": return { ...op, type: "category/remove" };
+    case "category/remove": return { ...op, type: "category/add" };
+    case "category/update": return { ...op, before: op.after, after: op.before };
+    case "currency/add": return { ...op, type: "currency/remove" };
+    case "currency/remove": return { ...op, type: "currency/add" };
+    case "currency/update": return { ...op, before: op.after, after: op.before };
+    case "trip/addPin": return { ...op, type: "trip/removePin" };
+    case "trip/removePin": return { ...op, type: "trip/addPin" };
+    case "trip/movePin": return { ...op, from: op.to, to: op.from, fromAfter: op.toAfter, toAfter: op.fromAfter };
+    default: throw new Error(`Unknown history operation: ${op.type}`);
+  }
+}
+
+/** Bounded undo/redo stacks of HistoryEntry. The caller applies the returned entries. */
+function useCommandHistory({ depth, groupWindowMs }) {
+  const stacksRef = useRef({ past: [], future: [] });
+  const lastRecordedRef = useRef(null); // only the entry recorded most recently may absorb new edits
+  const [, setVersion] = useState(0);
+  const update = (next) => { stacksRef.current = next; setVersion(v => v + 1); };
+
+  const record = (op, label, groupKey) => {
+    const { past } = stacksRef.current;
+    const last = past[past.length - 1];
+    const now = Date.now();
+    if (groupKey && last && last === lastRecordedRef.current && last.groupKey === groupKey && now - last.at < groupWindowMs) {
+      const merged = { ...last, ops: [...last.ops, op], label, at: now };
+      lastRecordedRef.current = merged;
+      update({ past: [...past.slice(0, -1), merged], future: [] });
+      return;
+    }
+    const entry = { label, ops: [op], groupKey, at: now };
+    lastRecordedRef.current = entry;
+    update({ past: [...past, entry].slice(-depth), future: [] });
+  };
+
+  const takeUndo = () => {
+    const { past, future } = stacksRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return null;
+    lastRecordedRef.current = null;
+    update({ past: past.slice(0, -1), future: [...future, entry] });
+    return entry;
+  };
+
+  const takeRedo = () => {
+    const { past, future } = stacksRef.current;
+    const entry = future[future.length - 1];
+    if (!entry) return null;
+    lastRecordedRef.current = null;
+    update({ past: [...past, entry], future: future.slice(0, -1) });
+    return entry;
+  };
+
+  const reset = () => { lastRecordedRef.current = null; update({ past: [], future: [] }); };
+
+  return { ...stacksRef.current, record, takeUndo, takeRedo, reset };
+}
+
+const isTextInput = (el) => el instanceof HTMLElement && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName));
+
+// ==== Storage backends ====
+/**
+ * Persisted document. `schemaVersion` is bumped whenever the shape changes and
+ * MIGRATIONS gains a step that upgrades the previous version.
+ * @typedef {Object} AtlasDoc
+ * @property {number} schemaVersion
+ * @property {Pin[]} pins
+ * @property {Trip[]} trips
+ * @property {Category[]} categories
+ * @property {Currency[]} currencies // rate table for expenses, see Budgets & expenses
+ * @property {SyncMeta} sync // per-field edit stamps and tombstones, see Sync
+ */
+
+/**
+ * @typedef {Object} AtlasStorage
+ * @property {string} label // shown in the UI
+ * @property {() => Promise<AtlasDoc|null>} load // null when nothing is stored yet
+ * @property {(doc: AtlasDoc) => Promise<void>} save
+ */
+
+const SCHEMA_VERSION = 6;
+
+// MIGRATIONS[n] upgrades a document from version n to n + 1.
+const MIGRATIONS = [
+  // 0 -> 1: pins and trips used to live under separate localStorage keys without a version
+  (doc) => ({ pins: doc.pins ?? [], trips: doc.trips ?? [] }),
+  // 1 -> 2: categories became user-editable data; keep every key pins already use
+  (doc) => ({ ...doc, categories: withMissingCategories(DEFAULT_CATEGORIES, doc.pins) }),
+  // 2 -> 3: trips got their own line colour so several can be shown at once
+  (doc) => ({ ...doc, trips: doc.trips.map((t, i) => ({ ...t, color: t.color || TRIP_PALETTE[i % TRIP_PALETTE.length] })) }),
+  // 3 -> 4: edits are merged between tabs and devices; existing data counts as older than any edit
+  (doc) => ({ ...doc, sync: emptySyncMeta() }),
+  // 4 -> 5: pins got a status; everything mapped so far was a place already visited
+  (doc) => ({ ...doc, pins: doc.pins.map(p => ({ ...p, status: p.status || DEFAULT_PIN_STATUS })) }),
+  // 5 -> 6: expenses and budgets need a rate table, which syncs like the other lists
+  (doc) => ({
+    ...doc,
+    currencies: DEFAULT_CURRENCIES,
+    sync: {
+      stamps: { ...doc.sync.stamps, currencies: {} },
+      tombstones: { ...doc.sync.tombstones, currencies: {} }
+    }
+  }),
+];
+
+export function migrateAtlas(doc) {
+  let version = doc.schemaVersion ?? 0;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Stored atlas uses schema version ${version}, but this app only understands up to ${SCHEMA_VERSION}. Please update GlobeAtlas.`);
+  }
+  let next = doc;
+  while (version < SCHEMA_VERSION) {
+    next = { ...MIGRATIONS[version](next), schemaVersion: version + 1 };
+    version += 1;
+  }
+  if (!Array.isArray(next.pins) || !Array.isArray(next.trips) || !Array.isArray(next.categories) || !Array.isArray(next.currencies)) {
+    throw new Error("Stored atlas is malformed: expected pins, trips, categories and currencies to be lists.");
+  }
+  return next;
+}
+
+// The in-memory atlas is the persisted document without its version and sync stamps
+function atlasFromDoc(doc) {
+  const atlas = { ...doc };
+  delete atlas.schemaVersion;
+  delete atlas.sync;
+  return atlas;
+}
+
+const seedAtlas = () => ({ schemaVersion: SCHEMA_VERSION, pins: SEED_PINS, trips: [], categories: DEFAULT_CATEGORIES, currencies: DEFAULT_CURRENCIES, sync: emptySyncMeta() });
+
+export function createAtlasStorage(config) {
+  switch (config.backend) {
+    case "localStorage": return createLocalStorageBackend();
+    case "rest": return createRestBackend(config.restUrl);
+    default: return createIndexedDBBackend();
+  }
+}
+
+// Reads the localStorage document, falling back to the pre-versioned separate keys.
+function readLocalAtlas() {
+  const raw = localStorage.getItem(LS_KEYS.atlas);
+  if (raw !== null) {
+    try { return JSON.parse(raw); } catch { throw new Error("Stored atlas in localStorage is corrupt (invalid JSON)."); }
+  }
+  const legacyPins = localStorage.getItem(LS_KEYS.pins);
+  const legacyTrips = localStorage.getItem(LS_KEYS.trips);
+  if (legacyPins === null && legacyTrips === null) return null;
+  try {
+    return { schemaVersion: 0, pins: JSON.parse(legacyPins ?? "[]"), trips: JSON.parse(legacyTrips ?? "[]") };
+  } catch {
+    throw new Error("Stored pins or trips in localStorage are corrupt (invalid JSON).");
+  }
+}
+
+function createLocalStorageBackend() {
+  return {
+    label: "Local-only storage",
+    load: async () => readLocalAtlas(),
+    save: async (doc) => {
+      try { localStorage.setItem(LS_KEYS.atlas, JSON.stringify(doc)); } catch (err) {
+        throw new Error(`Could not write to localStorage: ${err.message}`);
+      }
+    }
+  };
+}
+
+const IDB_NAME = "globeatlas";
+const IDB_VERSION = 2;
+const IDB_STORES = ["atlas", "attachments"]; // v2 added attachments (kept in IndexedDB whatever the atlas backend)
+
+function openAtlasDB() {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB is not available in this browser."));
+    const req = indexedDB.open(IDB_NAME, IDB_VERSION);
+    req.onupgradeneeded = () => {
+      IDB_STORES.forEach(name => {
+        if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+      });
+    };
+    req.onsuccess = () => {
+      // Let a newer version in another tab upgrade instead of being blocked by us
+      req.result.onversionchange = () => req.result.close();
+      resolve(req.result);
+    };
+    req.onerror = () => reject(new Error(`Could not open IndexedDB: ${req.error?.message}`));
+    req.onblocked = () => reject(new Error("IndexedDB upgrade is blocked by another open GlobeAtlas tab."));
+  });
+}
+
+// One shared connection for the atlas and attachment stores
+let atlasDBPromise = null;
+const atlasDB = () => (atlasDBPromise ??= openAtlasDB().catch(err => { atlasDBPromise = null; throw err; }));
+
+// Runs one request in its own transaction and resolves once the transaction commits.
+function idbRun(db, store, mode, fn) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req?.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("IndexedDB transaction aborted."));
+  });
+}
+
+function createIndexedDBBackend() {
+  const db = atlasDB;
+  return {
+    label: "Local-only storage",
+    load: async () => {
+      const doc = await idbRun(await db(), "atlas", "readonly", s => s.get("atlas"));
+      // First run on IndexedDB: pick up whatever an older version left in localStorage
+      return doc ?? readLocalAtlas();
+    },
+    save: async (doc) => {
+      try { await idbRun(await db(), "atlas", "readwrite", s => s.put(doc, "atlas")); } catch (err) {
+        throw new Error(`Could not write to IndexedDB: ${err?.message}`);
+      }
+    }
+  };
+}
+
+function createRestBackend(baseUrl) {
+  const url = `${baseUrl.replace(/\/$/, "")}/atlas`;
+  const request = async (init) => {
+    try { return await fetch(url, init); } catch (err) {
+      throw new Error(`Cannot reach ${url}: ${err.message}`);
+    }
+  };
+  return {
+    label: "Synced to API",
+    load: async () => {
+      const res = await request({ headers: { Accept: "application/json" } });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`Loading from ${url} failed (HTTP ${res.status}).`);
+      try { return await res.json(); } catch { throw new Error(`${url} did not return valid JSON.`); }
+    },
+    save: async (doc) => {
+      const res = await request({ method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(doc) });
+      if (!res.ok) throw new Error(`Saving to ${url} failed (HTTP ${res.status}).`);
+    }
+  };
+}
+
+const storage = createAtlasStorage(STORAGE_CONFIG);
+
+// ==== Map engines ====
+/**
+ * Both engines share the mapbox-gl API, so the app talks to `gl` directly and the adapter
+ * only covers what differs: access, styles, fonts and a few calls.
+ * @typedef {Object} MapEngine
+ * @property {string} label
+ * @property {() => Promise<Object>} load // imports the engine's library; resolves with `gl`
+ * @property {Object|null} gl // Map, Popup, Marker, LngLatBounds and the controls, once loaded
+ * @property {string|null} unavailable // why no map can be shown, e.g. a missing token
+ * @property {Object<string, string|Object>} styles // base style key -> style URL or style JSON
+ * @property {string} glyphs // font URL template for raster styles built here
+ * @property {string[]} labelFont
+ * @property {Object} mapOptions
+ * @property {(map: Object) => void} onStyleLoad // after the first and every switched style
+ * @property {(source: Object, clusterId: number) => Promise<number>} clusterExpansionZoom
+ * @property {Object} updatableSource // options for GeoJSON sources updated through updateGeoJSON
+ * @property {(source: Object, diff: { add: Object[], update: Object[], remove: string[] }) => boolean} updateGeoJSON
+ *   // incremental GeoJSON source update keyed by the promoted id; false when the diff needs setData
+ */
+
+const BASE_STYLES = [
+  { key: "custom", label: "Custom" },
+  { key: "streets", label: "Streets" },
+  { key: "satellite", label: "Satellite" },
+  { key: "terrain", label: "Terrain" },
+  { key: "dark", label: "Dark" },
+];
+
+function createMapEngine(config) {
+  const engine = config.engine === "maplibre" ? createMapLibreEngine(config.glyphsUrl) : createMapboxEngine(MAPBOX_TOKEN, config.glyphsUrl);
+  const custom = config.styleUrl || (config.tileUrl ? rasterStyle(config.tileUrl, config.tileAttribution, engine.glyphs) : null);
+  // Only the configured engine's library is downloaded, once, when the first map is created
+  let loading = null;
+  const loaded = {
+    ...engine,
+    gl: null,
+    load: () => (loading ??= engine.load().then(gl => { loaded.gl = gl; return gl; }).catch(err => {
+      loading = null;
+      throw new Error(`Could not load ${engine.label}: ${err.message}`);
+    })),
+    styles: custom ? { custom, ...engine.styles } : engine.styles,
+    labelFont: config.labelFont || engine.labelFont
+  };
+  return loaded;
+}
+
+export function createMapboxEngine(token, glyphsUrl) {
+  const glyphs = glyphsUrl || "mapbox://fonts/mapbox/{fontstack}/{range}.pbf";
+  return {
+    label: "Mapbox",
+    load: async () => {
+      const [{ default: mapboxgl }] = await Promise.all([import("mapbox-gl"), import("mapbox-gl/dist/mapbox-gl.css")]);
+      mapboxgl.accessToken = token;
+      return mapboxgl;
+    },
+    unavailable: token ? null
+      : "No Mapbox access token is set. Add MAPBOX_TOKEN, or set GLOBEATLAS_MAP_ENGINE=maplibre to use MapLibre, which needs none.",
+    styles: {
+      streets: "mapbox://styles/mapbox/streets-v12",
+      satellite: "mapbox://styles/mapbox/satellite-streets-v12",
+      terrain: "mapbox://styles/mapbox/outdoors-v12",
+      dark: "mapbox://styles/mapbox/dark-v11",
+    },
+    glyphs,
+    labelFont: ["DIN Pro Medium", "Arial Unicode MS Bold"],
+    mapOptions: { projection: "globe" },
+    // Atmosphere around the globe when zoomed out
+    onStyleLoad: (map) => map.setFog({}),
+    clusterExpansionZoom: (source, clusterId) => new Promise((resolve, reject) => {
+      source.getClusterExpansionZoom(clusterId, (err, zoom) => err ? reject(err) : resolve(zoom));
+    }),
+    // updateData replaces features by id but cannot remove them, so removals fall back to setData
+    updatableSource: { dynamic: true },
+    updateGeoJSON: (source, { add, update, remove }) => {
+      if (remove.length) return false;
+      source.updateData({ type: "FeatureCollection", features: [...add, ...update] });
+      return true;
+    }
+  };
+}
+
+// addProtocol is global to the maplibre-gl module, so it is registered once however many engines load
+let pmtilesProtocolAdded = false;
+
+export function createMapLibreEngine(glyphsUrl) {
+  const glyphs = glyphsUrl || "https://tiles.basemaps.cartocdn.com/fonts/{fontstack}/{range}.pbf";
+  return {
+    label: "MapLibre",
+    load: async () => {
+      const [{ default: maplibregl }, { Protocol }] = await Promise.all([import("maplibre-gl"), import("pmtiles"), import("maplibre-gl/dist/maplibre-gl.css")]);
+      // pmtiles:// sources read tiles straight from one archive file, no tile server needed
+      if (!pmtilesProtocolAdded) {
+        maplibregl.addProtocol("pmtiles", new Protocol().tile);
+        pmtilesProtocolAdded = true;
+      }
+      return maplibregl;
+    },
+    unavailable: null,
+    styles: {
+      streets: "https://basemaps.cartocdn.com/gl/voyager-gl-style/style.json",
+      satellite: rasterStyle("https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}", "Imagery © Esri", glyphs),
+      terrain: rasterStyle("https://tile.opentopomap.org/{z}/{x}/{y}.png", "© OpenStreetMap contributors, SRTM · © OpenTopoMap (CC-BY-SA)", glyphs, 17),
+      dark: "https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json",
+    },
+    glyphs,
+    labelFont: ["Open Sans Bold"],
+    mapOptions: {},
+    onStyleLoad: (map) => map.setProjection({ type: "globe" }),
+    clusterExpansionZoom: (source, clusterId) => source.getClusterExpansionZoom(clusterId),
+    updatableSource: {},
+    updateGeoJSON: (source, { add, update, remove }) => {
+      source.updateData({ add: [...add, ...update], remove: [...remove, ...update.map(f => f.properties.id)] });
+      return true;
+    }
+  };
+}
+
+// Minimal style around one raster layer; glyphs are needed for the atlas' own labels
+function rasterStyle(tiles, attribution, glyphs, maxzoom = 19) {
+  const source = tiles.startsWith("pmtiles://") ? { url: tiles } : { tiles: [tiles], maxzoom };
+  return {
+    version: 8,
+    glyphs,
+    sources: { basemap: { type: "raster", tileSize: 256, attribution, ...source } },
+    layers: [{ id: "basemap", type: "raster", source: "basemap" }]
+  };
+}
+
+const mapEngine = createMapEngine(MAP_CONFIG);
+
+// Place search and reverse geocoding: "mapbox" (uses MAPBOX_TOKEN, so it is the default only when
+// one is set) or "nominatim", which also works against a self-hosted or local stand-in. The public
+// nominatim.openstreetmap.org forbids autocomplete, so there a search only runs when submitted.
+const GEOCODING_CONFIG = {
+  provider: process.env.GLOBEATLAS_GEOCODER || (MAPBOX_TOKEN ? "mapbox" : "nominatim"),
+  nominatimUrl: process.env.GLOBEATLAS_NOMINATIM_URL || "https://nominatim.openstreetmap.org",
+  debounceMs: 350,
+  cacheSize: 200
 };
-const pushFuture = (state) => {
-  const fut = loadJSON(LS_KEYS.future, []);
-  fut.push(state);
-  saveJSON(LS_KEYS.future, fut);
+
+// Optional routing engine for road geometry and travel times. Any OSRM-compatible endpoint
+// works, including a local mock; leave baseUrl empty to only show straight-line distances.
+const ROUTING_CONFIG = {
+  baseUrl: process.env.GLOBEATLAS_ROUTING_URL || "",
+  profiles: { walk: "foot", drive: "driving", transit: null } // null = the engine has no such profile
 };
-const popFuture = () => {
-  const fut = loadJSON(LS_KEYS.future, []);
-  return fut.pop();
+const SAVE_DEBOUNCE_MS = 300;
+
+// Live sync. Tabs of this browser always exchange edits; with a serverUrl the atlas is also
+// synced through a WebSocket relay (message format under Sync), e.g. between laptop and phone.
+const SYNC_CONFIG = {
+  channel: "globeatlas-sync",
+  serverUrl: process.env.GLOBEATLAS_SYNC_URL || "",
+  reconnectMs: { min: 1000, max: 30000 },
+  tombstoneDays: 90 // deletions are remembered this long, so an offline device cannot bring them back
 };
 
 // ==== Seed data (optional) ====
@@ -89,7 +581,8 @@ const SEED_PINS = [
     description: "Neoclassical landmark in Senate Square.",
     category: "landmark",
     date: new Date().toISOString().slice(0, 10),
-    lngLat: [24.9525, 60.1706]
+    lngLat: [24.9525, 60.1706],
+    status: "visited"
   },
   {
     id: crypto.randomUUID(),
@@ -97,338 +590,1684 @@ const SEED_PINS = [
     description: "UNESCO World Heritage site across Helsinki's harbor.",
     category: "history",
     date: new Date().toISOString().slice(0, 10),
-    lngLat: [24.9899, 60.1460]
+    lngLat: [24.9899, 60.1460],
+    status: "wishlist"
   }
 ];
 
-const categories = [
-  { key: "landmark", label: "Landmark" },
-  { key: "food", label: "Food" },
-  { key: "museum", label: "Museum" },
-  { key: "nature", label: "Nature" },
-  { key: "stay", label: "Stay" },
-  { key: "other", label: "Other" },
+// ==== Categories ====
+// Defaults for new atlases; after that the registry lives in the atlas document.
+const DEFAULT_CATEGORIES = [
+  { key: "landmark", label: "Landmark", color: "#3b82f6", icon: "🏛️" },
+  { key: "history", label: "History", color: "#b45309", icon: "🏰" },
+  { key: "food", label: "Food", color: "#f59e0b", icon: "🍽️" },
+  { key: "museum", label: "Museum", color: "#a855f7", icon: "🖼️" },
+  { key: "nature", label: "Nature", color: "#16a34a", icon: "🌲" },
+  { key: "stay", label: "Stay", color: "#f43f5e", icon: "🛏️" },
+  { key: "other", label: "Other", color: "#6b7280", icon: "📍" },
+];
+const CATEGORY_ICONS = ["📍", "🏛️", "🏰", "⛪", "🖼️", "🎭", "🍽️", "☕", "🍺", "🛍️", "🌲", "⛰️", "🏖️", "🛏️", "🚉", "✈️", "⭐", "❤️"];
+const CATEGORY_PALETTE = ["#3b82f6", "#f59e0b", "#a855f7", "#16a34a", "#f43f5e", "#0ea5e9", "#b45309", "#db2777", "#65a30d", "#6b7280"];
+const UNKNOWN_CATEGORY = { key: "", label: "Uncategorised", color: "#6b7280", icon: "📍" };
+
+const categoryOf = (categories, key) => categories.find(c => c.key === key) || { ...UNKNOWN_CATEGORY, key };
+
+// Appends a category for every key used by `pins` that the registry does not know yet.
+function withMissingCategories(categories, pins) {
+  const next = [...categories];
+  pins.forEach(p => {
+    if (!p.category || next.some(c => c.key === p.category)) return;
+    next.push({
+      key: p.category,
+      label: p.category.charAt(0).toUpperCase() + p.category.slice(1),
+      color: CATEGORY_PALETTE[next.length % CATEGORY_PALETTE.length],
+      icon: "📍"
+    });
+  });
+  return next;
+}
+
+function categoryKeyFor(label, categories) {
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "category";
+  let key = base;
+  for (let i = 2; categories.some(c => c.key === key); i++) key = `${base}-${i}`;
+  return key;
+}
+
+// ==== Pin status, ratings & tags ====
+const PIN_STATUSES = [
+  { key: "wishlist", label: "Wishlist", icon: "☆" },
+  { key: "planned", label: "Planned", icon: "🗓️" },
+  { key: "visited", label: "Visited", icon: "✓" },
+];
+const DEFAULT_PIN_STATUS = "visited";
+const MAX_RATING = 5;
+
+const statusOf = (key) => PIN_STATUSES.find(s => s.key === key) || statusOf(DEFAULT_PIN_STATUS);
+const ratingStars = (rating) => "★".repeat(rating || 0) + "☆".repeat(MAX_RATING - (rating || 0));
+
+// Trimmed, without empties or case-insensitive repeats; the first spelling wins
+function normalizeTags(tags) {
+  const seen = new Set();
+  return tags.map(t => String(t).trim()).filter(t => {
+    const key = t.toLowerCase();
+    if (!t || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+const isWebUrl = (url) => /^https?:\/\/\S+$/i.test(url);
+
+// One link per line: a URL, optionally preceded by a label ("Booking https://…")
+function parseLinks(text) {
+  return text.split("\n").map(line => line.trim()).filter(Boolean).flatMap(line => {
+    const url = line.split(/\s+/).pop();
+    if (!isWebUrl(url)) return [];
+    const label = line.slice(0, line.length - url.length).trim();
+    return [label ? { label, url } : { url }];
+  });
+}
+const formatLinks = (links) => (links || []).map(l => l.label ? `${l.label} ${l.url}` : l.url).join("\n");
+
+// ==== Trip colours ====
+const TRIP_PALETTE = ["#2563eb", "#dc2626", "#16a34a", "#9333ea", "#ea580c", "#0891b2", "#c026d3", "#4d7c0f"];
+const DEFAULT_TRIP_COLOR = TRIP_PALETTE[0];
+
+// First palette colour no trip uses yet, cycling once all are taken
+function nextTripColor(trips) {
+  const used = new Set(trips.map(t => t.color));
+  return TRIP_PALETTE.find(c => !used.has(c)) || TRIP_PALETTE[trips.length % TRIP_PALETTE.length];
+}
+
+// ==== Import / export settings ====
+const EXPORT_FORMATS = [
+  { key: "geojson", label: "GeoJSON" },
+  { key: "gpx", label: "GPX" },
+  { key: "kml", label: "KML" },
 ];
+const DUPLICATE_RADIUS_M = 50; // same title within this distance counts as the same place
+const MAX_IMPORTED_TRIP_STOPS = 25; // long GPX tracks are sampled down to this many stops
+
+// ==== Small screens ====
+// Below the lg breakpoint the sidebar becomes a bottom sheet with three heights; the map area
+// keeps a bottom margin of the peek height so its overlays stay clear of the sheet
+const SHEET_HEIGHTS = { peek: "h-[7.5rem]", half: "h-[55vh]", full: "h-[88vh]" };
+const SHEET_SNAPS = Object.keys(SHEET_HEIGHTS);
+const LONG_PRESS_MS = 550; // holding the map this long drops a pin on touch screens
+const LONG_PRESS_SLOP_PX = 10; // finger movement tolerated during a long-press
+const LOCATION_MAX_AGE_MS = 60000; // a geolocate fix this recent is reused for "Pin my location"
+
+// Taps are too easy to trigger while panning, so touch screens drop pins by long-press only
+const isCoarsePointer = () => window.matchMedia?.("(pointer: coarse)").matches ?? false;
+
+// A short tap on the sheet handle cycles its height; a swipe steps it up or down
+function nextSheetSnap(current, dy) {
+  const index = SHEET_SNAPS.indexOf(current);
+  if (Math.abs(dy) < 8) return SHEET_SNAPS[(index + 1) % SHEET_SNAPS.length];
+  return SHEET_SNAPS[Math.max(0, Math.min(SHEET_SNAPS.length - 1, index + (dy < 0 ? 1 : -1)))];
+}
 
 export default function GlobeAtlas() {
   // ==== App state ====
   const mapRef = useRef(null);
   const mapContainerRef = useRef(null);
 
-  const [pins, setPins] = useState(() => loadJSON(LS_KEYS.pins, SEED_PINS));
-  const [trips, setTrips] = useState(() => loadJSON(LS_KEYS.trips, []));
+  const [atlas, setAtlas] = useState({ pins: [], trips: [], categories: [], currencies: [] });
+  const { pins, trips, categories, currencies } = atlas;
+  const atlasRef = useRef(atlas);
+  atlasRef.current = atlas;
+  const undoHistory = useCommandHistory(HISTORY_CONFIG);
+  const [loadState, setLoadState] = useState("loading"); // loading | ready | failed
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [saveAttempt, setSaveAttempt] = useState(0);
+  const [storageError, setStorageError] = useState(null); // { operation: "load" | "save" | "share", message }
+  // Opened from a share link: show that trip read-only instead of the stored atlas
+  const [sharedLink, setSharedLink] = useState(() => readShareFragment(window.location.hash));
+  const readOnly = Boolean(sharedLink);
+  const readOnlyRef = useRef(readOnly);
+  readOnlyRef.current = readOnly;
+  const pendingShareCopyRef = useRef(null); // shared atlas to add once the user's own atlas has loaded
+  const [shareState, setShareState] = useState(null); // { tripId, status: "working" | "link" | "file" | "error", url?, copied?, message? }
+  const saveQueueRef = useRef(Promise.resolve());
+  const syncRef = useRef({ atlas: null, meta: emptySyncMeta() }); // last atlas whose edits are stamped in meta
+  const syncTransportRef = useRef(null);
+  const [syncStatus, setSyncStatus] = useState("off"); // off | connecting | online | offline (relay only)
   const [selectedPinId, setSelectedPinId] = useState(null);
-  const [draftPin, setDraftPin] = useState({ title: "", description: "", category: "landmark", date: new Date().toISOString().slice(0,10) });
+  const [editing, setEditing] = useState(null); // { pinId, from: "list" | "card" }
+  const [dragPreview, setDragPreview] = useState(null); // { id, lngLat } while a pin is being dragged
+  const [mapReady, setMapReady] = useState(false);
+  const [mapError, setMapError] = useState(null); // the engine or style could not load, e.g. a bad token or unreachable tiles
+  const [mapEngineLoaded, setMapEngineLoaded] = useState(Boolean(mapEngine.gl));
+  const [baseStyle, setBaseStyle] = useState(() => {
+    const stored = localStorage.getItem(LS_KEYS.baseStyle);
+    return mapEngine.styles[stored] ? stored : Object.keys(mapEngine.styles)[0];
+  });
+  const appliedStyleRef = useRef(baseStyle);
+  const styleLoadingRef = useRef(true);
+  const popupRef = useRef(null); // { pinId, popup } for the single open pin popup
+  const pinFeaturesRef = useRef(new WeakMap()); // Pin object -> GeoJSON feature, reused while unchanged
+  const pinSourceSentRef = useRef({ source: null, byId: new Map() }); // what the pin source holds (see updateFeatureSource)
+  const heatmapSourceSentRef = useRef({ source: null, byId: new Map() });
+  const userMovedMapRef = useRef(false); // panned/zoomed by hand since the last automatic fit
+  const [routes, setRoutes] = useState({}); // routeKey -> { status: "loading" | "ok" | "error", result?, error? }
+  const requestedRoutesRef = useRef(new Set());
+  const [optimisingTripId, setOptimisingTripId] = useState(null);
+  const [itineraryTripId, setItineraryTripId] = useState(null);
+  const [budgetTripId, setBudgetTripId] = useState(null);
+  const [reportTripId, setReportTripId] = useState(null);
+  const [currenciesOpen, setCurrenciesOpen] = useState(false);
+  const [playback, setPlayback] = useState(null); // { tripId, t, playing, speed }; t is committed at stops, pauses and scrubs
+  const playbackTimeRef = useRef(0); // live playback time, advanced every animation frame
+  const [draftPin, setDraftPin] = useState({ title: "", description: "", address: "", category: "landmark", status: DEFAULT_PIN_STATUS, date: new Date().toISOString().slice(0,10) });
+  const [placeQuery, setPlaceQuery] = useState("");
+  const [placeResults, setPlaceResults] = useState({ status: "idle", items: [] }); // idle | loading | ok | error
+  const [reverseStatus, setReverseStatus] = useState({ status: "idle" });
+  const autoTitleRef = useRef(""); // title last filled in by reverse geocoding (safe to overwrite)
+  const draftPinRef = useRef(draftPin); // for geocoding results that arrive after later typing
+  draftPinRef.current = draftPin;
+  const draftMarkerRef = useRef(null);
+  const [attachmentError, setAttachmentError] = useState(null);
+  const [photoImport, setPhotoImport] = useState(null); // { drafts, skipped, error? } from dropped photos
+  const [dropActive, setDropActive] = useState(false);
+  const photoMarkersRef = useRef([]);
+  const debouncedPlaceQuery = useDebouncedValue(placeQuery.trim(), GEOCODING_CONFIG.debounceMs);
+  const [submittedPlaceQuery, setSubmittedPlaceQuery] = useState(""); // for geocoders without autocomplete
+  const placeSearch = geocoder.autocomplete ? debouncedPlaceQuery : submittedPlaceQuery;
+  const [categoriesOpen, setCategoriesOpen] = useState(false);
+  const [pinFilter, setPinFilter] = useState(EMPTY_PIN_FILTER);
+  const [viewport, setViewport] = useState(null); // { center: [lng, lat], bounds: [w, s, e, n] }
+  const viewportRef = useRef(null);
+  viewportRef.current = viewport;
   const [draftLngLat, setDraftLngLat] = useState(null);
   const [newTripName, setNewTripName] = useState("");
-  const [activeTripId, setActiveTripId] = useState(null);
+  const [activeTripId, setActiveTripId] = useState(null); // selected in the sidebar
+  const [visibleTripIds, setVisibleTripIds] = useState([]); // drawn on the map
+  const [sidebarTab, setSidebarTab] = useState("pins");
+  const [sheet, setSheet] = useState("peek"); // bottom sheet height on small screens
+  const sheetDragRef = useRef(null); // pointer y where a drag on the sheet handle started
+  const [stopDrag, setStopDrag] = useState(null); // { tripId, pinId, slot } while a stop is dragged in the list
+  const lastFixRef = useRef(null); // { lngLat, at } from the geolocate control
+  const [locateStatus, setLocateStatus] = useState({ status: "idle" }); // idle | locating | error
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [dataPanelOpen, setDataPanelOpen] = useState(false);
+  const [importPreview, setImportPreview] = useState(null); // parsed file waiting for confirmation
+  const [importError, setImportError] = useState(null);
+
+  // ==== Search & filters ====
+  // The map shows every pin matching the filter; the list can additionally be limited to the viewport
+  const mapPins = useMemo(() => filterPins(pins, pinFilter, trips), [pins, pinFilter, trips]);
+  const listPins = useMemo(() => {
+    const inView = pinFilter.viewportOnly && viewport ? mapPins.filter(p => inBounds(p.lngLat, viewport.bounds)) : mapPins;
+    return sortPins(inView, pinFilter.sort, viewport?.center);
+  }, [mapPins, pinFilter.viewportOnly, pinFilter.sort, viewport]);
+  const allTags = useMemo(() => normalizeTags(pins.flatMap(p => p.tags || [])).sort((a, b) => a.localeCompare(b)), [pins]);
+  // Facet counts ignore the category selection itself, so other categories stay discoverable
+  const facetCounts = useMemo(() => filterPins(pins, { ...pinFilter, categories: [] }, trips)
+    .reduce((acc, p) => ({ ...acc, [p.category]: (acc[p.category] || 0) + 1 }), {}), [pins, pinFilter, trips]);
+
+  // ==== Load & persist ====
+  useEffect(() => {
+    let cancelled = false;
+    setLoadState("loading");
+    const source = sharedLink
+      ? decodeSharePayload(sharedLink).then(atlas => ({ atlas, sync: emptySyncMeta() }))
+      : storage.load().then(doc => {
+        const migrated = doc ? migrateAtlas(doc) : seedAtlas();
+        return { atlas: atlasFromDoc(migrated), sync: migrated.sync };
+      });
+    source
+      .then(({ atlas: loaded, sync }) => {
+        if (cancelled) return;
+        syncRef.current = { atlas: loaded, meta: sync };
+        atlasRef.current = loaded;
+        setAtlas(loaded);
+        undoHistory.reset();
+        setStorageError(null);
+        setLoadState("ready");
+        if (sharedLink) {
+          setActiveTripId(loaded.trips[0].id);
+          setVisibleTripIds([loaded.trips[0].id]);
+          setSidebarTab("trips");
+          return;
+        }
+        // Attachments of deleted pins are kept for undo and for other live tabs, and only swept once long orphaned
+        attachmentStore.removeUnreferenced(new Set(loaded.pins.flatMap(p => p.attachmentIds || []))).catch(() => {});
+        const copy = pendingShareCopyRef.current;
+        pendingShareCopyRef.current = null;
+        if (copy) {
+          const { trip, ops } = shareCopyOps(copy, loaded);
+          commit({ type: "batch", ops }, `Copied shared trip ${trip.name}`);
+          setActiveTripId(trip.id);
+          setVisibleTripIds([trip.id]);
+          setSidebarTab("trips");
+        }
+      })
+      .catch(err => {
+        if (cancelled) return;
+        // Never fall back to seed data silently: saving it would overwrite what is stored
+        setStorageError({ operation: sharedLink ? "share" : "load", message: err.message });
+        setLoadState("failed");
+      });
+    // Older versions kept full undo snapshots in localStorage; they can be large
+    localStorage.removeItem(LS_KEYS.history);
+    localStorage.removeItem(LS_KEYS.future);
+    return () => { cancelled = true; };
+  }, [loadAttempt, sharedLink]);
 
-  // Persist state
-  useEffect(() => saveJSON(LS_KEYS.pins, pins), [pins]);
-  useEffect(() => saveJSON(LS_KEYS.trips, trips), [trips]);
+  // Following another share link in the same tab only changes the fragment
+  useEffect(() => {
+    const onHashChange = () => setSharedLink(readShareFragment(window.location.hash));
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  useEffect(() => {
+    // A shared trip is only viewed; it must never overwrite the stored atlas
+    if (loadState !== "ready" || readOnly) return;
+    const timer = setTimeout(() => {
+      // Chain saves so a slow request can never land after a newer one. Edits from other tabs and
+      // devices arrive through the sync channel and are merged into this atlas before it is saved.
+      saveQueueRef.current = saveQueueRef.current
+        .then(() => {
+          flushLocalEditsRef.current();
+          const { atlas: latest, meta } = syncRef.current;
+          const sync = pruneTombstones(meta, SYNC_CONFIG.tombstoneDays * 24 * 60 * 60 * 1000);
+          return storage.save({ schemaVersion: SCHEMA_VERSION, ...latest, sync });
+        })
+        .then(() => setStorageError(e => e?.operation === "save" ? null : e))
+        .catch(err => setStorageError({ operation: "save", message: err.message }));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [atlas, loadState, saveAttempt, readOnly]);
+
+  // ==== Live sync ====
+  // Stamps the local edits made since the last sync point and sends them to peers
+  const flushLocalEdits = () => {
+    const synced = syncRef.current;
+    const current = atlasRef.current;
+    if (!synced.atlas || synced.atlas === current) return;
+    const changes = diffAtlas(synced.atlas, current, syncClock.next);
+    syncRef.current = { atlas: current, meta: mergeChanges(synced.atlas, synced.meta, changes, syncClock).meta };
+    if (changes.length) syncTransportRef.current?.send({ type: "changes", changes });
+  };
+  const flushLocalEditsRef = useRef(flushLocalEdits);
+  flushLocalEditsRef.current = flushLocalEdits;
+
+  // Applies edits from another tab or device on top of ours
+  const mergeRemoteChanges = (changes) => {
+    flushLocalEdits();
+    const merged = mergeChanges(atlasRef.current, syncRef.current.meta, changes, syncClock);
+    syncRef.current = merged;
+    if (merged.atlas === atlasRef.current) return;
+    atlasRef.current = merged.atlas;
+    setAtlas(merged.atlas);
+  };
+  const mergeRemoteChangesRef = useRef(mergeRemoteChanges);
+  mergeRemoteChangesRef.current = mergeRemoteChanges;
+
+  useEffect(() => {
+    if (loadState !== "ready" || readOnly) return;
+    const transport = createSyncTransport({
+      ...SYNC_CONFIG,
+      replica: syncClock.replica,
+      snapshot: () => {
+        flushLocalEditsRef.current();
+        return snapshotChanges(syncRef.current.atlas, syncRef.current.meta);
+      },
+      onMessage: (msg, reply) => {
+        mergeRemoteChangesRef.current(msg.changes || []);
+        if (msg.type === "hello") reply({ type: "changes", changes: snapshotChanges(syncRef.current.atlas, syncRef.current.meta) });
+      },
+      onStatus: setSyncStatus
+    });
+    syncTransportRef.current = transport;
+    return () => {
+      transport.close();
+      syncTransportRef.current = null;
+      setSyncStatus("off");
+    };
+  }, [loadState, readOnly]);
+
+  // Every change to the atlas that did not come from a peer is stamped and broadcast
+  useEffect(() => {
+    if (loadState === "ready" && !readOnly) flushLocalEdits();
+  }, [atlas, loadState, readOnly]);
+
+  const startFromSeed = () => {
+    syncRef.current = { atlas: { pins: [], trips: [], categories: [], currencies: [] }, meta: emptySyncMeta() };
+    setAtlas(atlasFromDoc(seedAtlas()));
+    undoHistory.reset();
+    setStorageError(null);
+    setLoadState("ready");
+  };
 
   // ==== Initialize map ====
   useEffect(() => {
-    if (mapRef.current || !mapContainerRef.current) return;
+    if (mapEngine.unavailable || mapEngineLoaded) return;
+    let cancelled = false;
+    mapEngine.load().then(
+      () => { if (!cancelled) setMapEngineLoaded(true); },
+      (err) => { if (!cancelled) setMapError(err.message); }
+    );
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    // Without a usable engine (e.g. no token) an error card stands in for the map
+    if (!mapEngineLoaded || mapRef.current || !mapContainerRef.current || mapEngine.unavailable) return;
 
-    // Create Mapbox map
-    const map = new mapboxgl.Map({
+    // Create the map with the configured engine
+    const map = new mapEngine.gl.Map({
+      ...mapEngine.mapOptions,
       container: mapContainerRef.current,
-      style: "mapbox://styles/mapbox/streets-v12",
+      style: mapEngine.styles[appliedStyleRef.current],
       center: [24.9384, 60.1699], // Helsinki
       zoom: 11
     });
 
     // Add navigation controls
-    map.addControl(new mapboxgl.NavigationControl(), "bottom-right");
-    map.addControl(new mapboxgl.FullscreenControl());
-    map.addControl(new mapboxgl.ScaleControl({ maxWidth: 120, unit: "metric" }));
+    map.addControl(new mapEngine.gl.NavigationControl(), "bottom-right");
+    map.addControl(new mapEngine.gl.FullscreenControl());
+    map.addControl(new mapEngine.gl.ScaleControl({ maxWidth: 120, unit: "metric" }));
 
-    // Geolocate control
-    map.addControl(new mapboxgl.GeolocateControl({
+    // Geolocate control; its latest fix is kept for "Pin my location"
+    const geolocate = new mapEngine.gl.GeolocateControl({
       positionOptions: { enableHighAccuracy: true },
       trackUserLocation: true,
       showUserHeading: true
-    }));
+    });
+    geolocate.on("geolocate", (pos) => { lastFixRef.current = { lngLat: [pos.coords.longitude, pos.coords.latitude], at: Date.now() }; });
+    map.addControl(geolocate);
+
+    // Runs for the first style and after every base style switch, which drops all sources and layers
+    map.on("style.load", () => {
+      styleLoadingRef.current = false;
+      setMapError(null);
+      mapEngine.onStyleLoad(map);
+      addAtlasLayers(map, atlasRef.current.categories);
+      setMapReady(true);
+      setViewport(readViewport(map));
+    });
+    // A style that never loads would otherwise leave a blank canvas; later tile errors are harmless
+    map.on("error", (e) => {
+      if (styleLoadingRef.current) setMapError(e.error?.message || "The map style could not be loaded.");
+    });
+    map.on("moveend", () => setViewport(readViewport(map)));
+    map.on("movestart", (e) => { if (e.originalEvent) userMovedMapRef.current = true; });
 
-    // Handle map clicks to place draft pin
+    // Handle map clicks to place draft pin (clicks on pins and clusters are handled below)
+    const onAtlasFeature = (point) => map.getLayer(PIN_LAYERS.points) &&
+      map.queryRenderedFeatures(point, { layers: [PIN_LAYERS.points, PIN_LAYERS.clusters, TRIP_LAYERS.line, TRIP_LAYERS.stops, COUNTRY_LAYERS.fill] }).length > 0;
     map.on("click", (e) => {
-      const { lng, lat } = e.lngLat;
-      setDraftLngLat([lng, lat]);
+      if (readOnlyRef.current || isCoarsePointer() || onAtlasFeature(e.point)) return;
+      placeDraftRef.current([e.lngLat.lng, e.lngLat.lat]);
+    });
+
+    // Long-press: the touch equivalent of a click; moving the finger or a second one cancels it
+    let press = null;
+    const cancelPress = () => { clearTimeout(press?.timer); press = null; };
+    map.on("touchstart", (e) => {
+      cancelPress();
+      if (readOnlyRef.current || e.points.length !== 1 || onAtlasFeature(e.point)) return;
+      const lngLat = [e.lngLat.lng, e.lngLat.lat];
+      press = { point: e.point, timer: setTimeout(() => {
+        press = null;
+        navigator.vibrate?.(30);
+        placeDraftRef.current(lngLat);
+      }, LONG_PRESS_MS) };
+    });
+    map.on("touchmove", (e) => { if (press && (e.points.length !== 1 || e.point.dist(press.point) > LONG_PRESS_SLOP_PX)) cancelPress(); });
+    map.on("touchend", cancelPress);
+    map.on("touchcancel", cancelPress);
+
+    // Pin click: select it and open its popup
+    map.on("click", PIN_LAYERS.points, (e) => {
+      const pin = atlasRef.current.pins.find(p => p.id === e.features[0].properties.id);
+      if (!pin) return;
+      setSelectedPinId(pin.id);
+      openPinPopup(map, popupRef, pin, atlasRef.current.categories);
+    });
+
+    // Cluster click: zoom in until it breaks apart
+    map.on("click", PIN_LAYERS.clusters, (e) => {
+      const feature = e.features[0];
+      mapEngine.clusterExpansionZoom(map.getSource(PIN_SOURCE), feature.properties.cluster_id)
+        .then(zoom => map.easeTo({ center: feature.geometry.coordinates, zoom }))
+        .catch(() => {});
+    });
+
+    // Trip line or stop badge click: select that trip in the sidebar (pins on top win)
+    [TRIP_LAYERS.line, TRIP_LAYERS.stops].forEach(layer => map.on("click", layer, (e) => {
+      if (map.queryRenderedFeatures(e.point, { layers: [PIN_LAYERS.points] }).length) return;
+      selectTripRef.current(e.features[0].properties.tripId);
+    }));
+
+    // Visited-country click (zoomed out): filter the pin list to that country, or clear it again
+    map.on("click", COUNTRY_LAYERS.fill, (e) => {
+      if (map.queryRenderedFeatures(e.point, { layers: [PIN_LAYERS.points, PIN_LAYERS.clusters, TRIP_LAYERS.line, TRIP_LAYERS.stops] }).length) return;
+      toggleCountryFilterRef.current(e.features[0].properties.id);
+    });
+
+    [PIN_LAYERS.points, PIN_LAYERS.clusters, TRIP_LAYERS.line, TRIP_LAYERS.stops, COUNTRY_LAYERS.fill].forEach(layer => {
+      map.on("mouseenter", layer, () => { map.getCanvas().style.cursor = "pointer"; });
+      map.on("mouseleave", layer, () => { map.getCanvas().style.cursor = ""; });
     });
 
+    // Drag a pin to move it; only the drop is recorded as an (undoable) edit
+    const beginDrag = (e) => {
+      if (readOnlyRef.current || e.originalEvent.button > 0 || (e.points && e.points.length !== 1)) return;
+      e.preventDefault(); // keeps the map from panning
+      const drag = { id: e.features[0].properties.id, lngLat: null };
+      popupRef.current?.popup.remove();
+      map.getCanvas().style.cursor = "grabbing";
+      const move = (ev) => {
+        drag.lngLat = [ev.lngLat.lng, ev.lngLat.lat];
+        setDragPreview({ id: drag.id, lngLat: drag.lngLat });
+      };
+      const end = () => {
+        map.off("mousemove", move).off("touchmove", move).off("mouseup", end).off("touchend", end);
+        map.getCanvas().style.cursor = "";
+        setDragPreview(null);
+        if (drag.lngLat) updatePinRef.current(drag.id, { lngLat: drag.lngLat });
+      };
+      map.on("mousemove", move).on("touchmove", move).on("mouseup", end).on("touchend", end);
+    };
+    map.on("mousedown", PIN_LAYERS.points, beginDrag);
+    map.on("touchstart", PIN_LAYERS.points, beginDrag);
+
     mapRef.current = map;
 
     return () => map.remove();
-  }, []);
+  }, [mapEngineLoaded]);
+
+  // Switch the base style; mapReady flips so the effects below push their data into the new layers
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || appliedStyleRef.current === baseStyle) return;
+    appliedStyleRef.current = baseStyle;
+    localStorage.setItem(LS_KEYS.baseStyle, baseStyle);
+    styleLoadingRef.current = true;
+    setMapReady(false);
+    map.setStyle(mapEngine.styles[baseStyle], { diff: false });
+  }, [baseStyle]);
 
   // ==== Render pins on map ====
+  // All pins live in one clustered GeoJSON source. Features are cached per Pin object, so
+  // an edit only rebuilds the feature of the pin that changed, and only that feature is sent
+  // to the source (Mapbox cannot remove features by id, so deletions still replace the set).
   useEffect(() => {
     const map = mapRef.current;
-    if (!map) return;
+    if (!map || !mapReady) return;
 
-    // Remove existing markers to avoid duplicates
-    if (map.__globeMarkers) {
-      map.__globeMarkers.forEach(m => m.remove());
-    }
-
-    const markers = pins.map((p) => {
-      const el = document.createElement("div");
-      el.className = "rounded-full shadow-lg ring-2 ring-white p-1 bg-white";
-
-      // Simple colored dot based on category (CSS-only to avoid inline styles)
-      const dot = document.createElement("div");
-      dot.className = "w-3 h-3 rounded-full";
-      // Map category to a Tailwind utility via data-attr class map (kept simple)
-      const colorClass = {
-        landmark: "bg-blue-500",
-        food: "bg-amber-500",
-        museum: "bg-purple-500",
-        nature: "bg-green-600",
-        stay: "bg-rose-500",
-        other: "bg-gray-500",
-      }[p.category] || "bg-gray-500";
-      dot.className += ` ${colorClass}`;
-      el.appendChild(dot);
-
-      const marker = new mapboxgl.Marker({ element: el })
-        .setLngLat(p.lngLat)
-        .addTo(map);
-
-      // Popup
-      const popupNode = document.createElement("div");
-      popupNode.className = "min-w-[220px]";
-      popupNode.innerHTML = `
-        <div class="font-semibold text-sm mb-1">${escapeHtml(p.title)}</div>
-        <div class="text-xs text-muted-foreground mb-1">${escapeHtml(p.category)} • ${escapeHtml(p.date)}</div>
-        <div class="text-xs">${escapeHtml(p.description)}</div>
-      `;
-      const popup = new mapboxgl.Popup({ offset: 12 }).setDOMContent(popupNode);
-      marker.setPopup(popup);
-
-      el.addEventListener("click", () => setSelectedPinId(p.id));
-
-      return marker;
+    const cache = pinFeaturesRef.current;
+    const features = mapPins.map(p => {
+      let feature = cache.get(p);
+      if (!feature) {
+        feature = pinToFeature(p);
+        cache.set(p, feature);
+      }
+      return feature;
     });
+    updateFeatureSource(map.getSource(PIN_SOURCE), features, pinSourceSentRef.current);
+    updateFeatureSource(map.getSource(HEATMAP_SOURCE), showHeatmap ? features : [], heatmapSourceSentRef.current);
 
-    map.__globeMarkers = markers;
-  }, [pins]);
+    // Keep an open popup in sync with edits, or close it when its pin is gone
+    const open = popupRef.current;
+    if (open) {
+      const pin = pins.find(p => p.id === open.pinId);
+      if (!pin) {
+        open.popup.remove();
+        popupRef.current = null;
+      } else {
+        open.popup.setLngLat(pin.lngLat).setDOMContent(pinPopupNode(pin, categories));
+      }
+    }
+  }, [pins, mapPins, categories, mapReady, showHeatmap]);
 
-  // ==== Draw active trip line ====
   useEffect(() => {
     const map = mapRef.current;
-    if (!map) return;
-
-    const trip = trips.find(t => t.id === activeTripId);
-    const coords = (trip?.pinIds || [])
-      .map(id => pins.find(p => p.id === id)?.lngLat)
-      .filter(Boolean);
+    if (!map || !mapReady) return;
+    map.setLayoutProperty(HEATMAP_LAYER, "visibility", showHeatmap ? "visible" : "none");
+  }, [showHeatmap, mapReady]);
 
-    const sourceId = "globeatlas-trip";
-    const layerId = "globeatlas-trip-line";
-
-    // Ensure source exists
-    if (map.getSource(sourceId)) {
-      map.removeLayer(layerId);
-      map.removeSource(sourceId);
+  // Recolour pins whenever the category registry changes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const paint = pinPointPaint(categories);
+    for (const layer of [PIN_LAYERS.points, PIN_LAYERS.drag]) {
+      map.setPaintProperty(layer, "circle-color", paint["circle-color"]);
+      map.setPaintProperty(layer, "circle-stroke-color", paint["circle-stroke-color"]);
     }
+  }, [categories, mapReady]);
 
-    if (coords.length >= 2) {
-      map.addSource(sourceId, {
-        type: "geojson",
-        data: {
-          type: "Feature",
-          geometry: { type: "LineString", coordinates: coords },
-          properties: {}
-        }
-      });
+  // Selection highlight
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    map.setFilter(PIN_LAYERS.selected, ["all", ["!", ["has", "point_count"]], ["==", ["get", "id"], selectedPinId ?? ""]]);
+  }, [selectedPinId, mapReady]);
 
-      map.addLayer({
-        id: layerId,
-        type: "line",
-        source: sourceId,
-        paint: {
-          "line-width": 4,
-          "line-color": "#2563eb", // blue-600
-          "line-opacity": 0.9
-        }
-      });
+  // While dragging, draw the pin from a tiny separate source and hide it from the clustered one
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const pin = dragPreview && atlasRef.current.pins.find(p => p.id === dragPreview.id);
+    map.getSource(PIN_DRAG_SOURCE).setData({
+      type: "FeatureCollection",
+      features: pin ? [pinToFeature({ ...pin, lngLat: dragPreview.lngLat })] : []
+    });
+    map.setFilter(PIN_LAYERS.points, pin
+      ? ["all", ["!", ["has", "point_count"]], ["!=", ["get", "id"], pin.id]]
+      : ["!", ["has", "point_count"]]);
+  }, [dragPreview, mapReady]);
 
-      // Fit bounds to the trip
-      const bounds = coords.reduce((b, c) => b.extend(c), new mapboxgl.LngLatBounds(coords[0], coords[0]));
-      map.fitBounds(bounds, { padding: 60, duration: 800 });
+  // ==== Place search & reverse geocoding ====
+  useEffect(() => {
+    if (placeSearch.length < 3) {
+      setPlaceResults({ status: "idle", items: [] });
+      return;
     }
-  }, [activeTripId, trips, pins]);
-
-  // ==== Actions ====
-  const addPin = () => {
-    if (!draftLngLat) return;
-    const pin = {
-      id: crypto.randomUUID(),
-      title: draftPin.title || "Untitled place",
-      description: draftPin.description || "",
-      category: draftPin.category,
-      date: draftPin.date || new Date().toISOString().slice(0,10),
-      lngLat: draftLngLat,
-    };
+    const controller = new AbortController();
+    setPlaceResults(r => ({ ...r, status: "loading" }));
+    geocoder.search(placeSearch, { proximity: viewportRef.current?.center, signal: controller.signal })
+      .then(items => setPlaceResults({ status: "ok", items }))
+      .catch(err => { if (err.name !== "AbortError") setPlaceResults({ status: "error", items: [], error: err.message }); });
+    return () => controller.abort();
+  }, [placeSearch]);
 
-    pushHistory({ pins, trips });
-    setPins(prev => [pin, ...prev]);
-    setDraftLngLat(null);
-    setDraftPin({ title: "", description: "", category: "landmark", date: new Date().toISOString().slice(0,10) });
+  const applyPlaceToDraft = (place) => {
+    // Only replace a title the user has not typed themselves
+    const { title } = draftPinRef.current;
+    const keepTitle = title && title !== autoTitleRef.current;
+    if (!keepTitle) autoTitleRef.current = place.name;
+    setDraftPin(s => ({ ...s, title: keepTitle ? s.title : place.name, address: place.address }));
   };
 
-  const deletePin = (id) => {
-    pushHistory({ pins, trips });
-    setPins(prev => prev.filter(p => p.id !== id));
-    setTrips(prev => prev.map(t => ({ ...t, pinIds: t.pinIds.filter(pid => pid !== id) })));
-    if (selectedPinId === id) setSelectedPinId(null);
+  const reverseControllerRef = useRef(null);
+  const reverseGeocode = (lngLat) => {
+    reverseControllerRef.current?.abort();
+    const controller = new AbortController();
+    reverseControllerRef.current = controller;
+    setReverseStatus({ status: "loading" });
+    geocoder.reverse(lngLat, { signal: controller.signal })
+      .then(place => {
+        setReverseStatus({ status: "ok" });
+        if (place) applyPlaceToDraft(place);
+      })
+      .catch(err => { if (err.name !== "AbortError") setReverseStatus({ status: "error", error: err.message }); });
   };
 
-  const createTrip = () => {
-    if (!newTripName.trim()) return;
-    pushHistory({ pins, trips });
-    const trip = { id: crypto.randomUUID(), name: newTripName.trim(), pinIds: [] };
-    setTrips(prev => [trip, ...prev]);
-    setNewTripName("");
-    setActiveTripId(trip.id);
+  // Set the draft location from the map or the device, and bring the add-pin form into view
+  const placeDraft = (lngLat) => {
+    setDraftLngLat(lngLat);
+    reverseGeocode(lngLat);
+    showPinsPanel();
   };
+  const placeDraftRef = useRef(placeDraft);
+  placeDraftRef.current = placeDraft;
 
-  const togglePinInTrip = (tripId, pinId) => {
-    pushHistory({ pins, trips });
-    setTrips(prev => prev.map(t => {
-      if (t.id !== tripId) return t;
-      const exists = t.pinIds.includes(pinId);
-      return {
-        ...t,
-        pinIds: exists ? t.pinIds.filter(id => id !== pinId) : [...t.pinIds, pinId]
-      };
-    }));
+  const showPinsPanel = () => {
+    setSidebarTab("pins");
+    setSheet(s => s === "peek" ? "half" : s);
   };
 
-  const reorderTripPins = (tripId, pinId, direction) => {
-    pushHistory({ pins, trips });
-    setTrips(prev => prev.map(t => {
-      if (t.id !== tripId) return t;
-      const idx = t.pinIds.indexOf(pinId);
-      if (idx === -1) return t;
-      const next = [...t.pinIds];
-      const swapWith = direction === "up" ? idx - 1 : idx + 1;
-      if (swapWith < 0 || swapWith >= next.length) return t;
-      [next[idx], next[swapWith]] = [next[swapWith], next[idx]];
-      return { ...t, pinIds: next };
-    }));
+  const pinMyLocation = () => {
+    showPinsPanel();
+    const dropAt = (lngLat) => {
+      setLocateStatus({ status: "idle" });
+      placeDraft(lngLat);
+      flyTo(lngLat, mapRef);
+    };
+    const fix = lastFixRef.current;
+    if (fix && Date.now() - fix.at < LOCATION_MAX_AGE_MS) return dropAt(fix.lngLat);
+    if (!navigator.geolocation) return setLocateStatus({ status: "error", error: "This browser cannot share its location." });
+    setLocateStatus({ status: "locating" });
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        const lngLat = [pos.coords.longitude, pos.coords.latitude];
+        lastFixRef.current = { lngLat, at: Date.now() };
+        dropAt(lngLat);
+      },
+      (err) => setLocateStatus({ status: "error", error: err.message || "Your location is not available." }),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: LOCATION_MAX_AGE_MS }
+    );
   };
 
-  const deleteTrip = (tripId) => {
-    pushHistory({ pins, trips });
-    setTrips(prev => prev.filter(t => t.id !== tripId));
-    if (activeTripId === tripId) setActiveTripId(null);
+  const choosePlace = (place) => {
+    reverseControllerRef.current?.abort();
+    setReverseStatus({ status: "idle" });
+    setDraftLngLat(place.lngLat);
+    applyPlaceToDraft(place);
+    setPlaceQuery("");
+    setSubmittedPlaceQuery("");
+    setPlaceResults({ status: "idle", items: [] });
+    flyTo(place.lngLat, mapRef);
   };
 
-  const undo = () => {
-    const prev = popHistory();
-    if (!prev) return;
-    const current = { pins, trips };
-    pushFuture(current);
-    setPins(prev.pins);
-    setTrips(prev.trips);
-    saveJSON(LS_KEYS.history, loadJSON(LS_KEYS.history, []).slice(0, -1));
-  };
+  // Draft location marker
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (!draftLngLat) {
+      draftMarkerRef.current?.remove();
+      draftMarkerRef.current = null;
+      return;
+    }
+    if (!draftMarkerRef.current) {
+      draftMarkerRef.current = new mapEngine.gl.Marker({ color: "#64748b" }).setLngLat(draftLngLat).addTo(map);
+    } else {
+      draftMarkerRef.current.setLngLat(draftLngLat);
+    }
+  }, [draftLngLat]);
 
-  const redo = () => {
-    const fut = popFuture();
-    if (!fut) return;
-    pushHistory({ pins, trips });
-    setPins(fut.pins);
-    setTrips(fut.trips);
-    saveJSON(LS_KEYS.future, loadJSON(LS_KEYS.future, []).slice(0, -1));
+  // ==== Routing ====
+  // Fetch road routes for trips with a travel mode; results are cached by mode + stop coordinates
+  useEffect(() => {
+    if (!router) return;
+    trips.forEach(t => {
+      const mode = t.travelMode || "straight";
+      const coords = tripCoords(t, pins);
+      if (mode === "straight" || coords.length < 2) return;
+      const key = routeKey(mode, coords);
+      if (requestedRoutesRef.current.has(key)) return;
+      requestedRoutesRef.current.add(key);
+      setRoutes(r => ({ ...r, [key]: { status: "loading" } }));
+      router.route(coords, mode)
+        .then(result => setRoutes(r => ({ ...r, [key]: { status: "ok", result } })))
+        .catch(err => setRoutes(r => ({ ...r, [key]: { status: "error", error: err.message } })));
+    });
+  }, [trips, pins, routes]);
+
+  const retryRoute = (key) => {
+    requestedRoutesRef.current.delete(key);
+    setRoutes(r => {
+      const next = { ...r };
+      delete next[key];
+      return next;
+    });
   };
 
-  // ==== Derived state ====
-  const selectedPin = useMemo(() => pins.find(p => p.id === selectedPinId) || null, [pins, selectedPinId]);
+  // Stops per trip that are still on the wishlist or only planned
+  const unvisitedStops = useMemo(() => {
+    const statuses = new Map(pins.map(p => [p.id, statusOf(p.status).key]));
+    return Object.fromEntries(trips.map(t => [t.id, t.pinIds.filter(id => statuses.has(id) && statuses.get(id) !== "visited").length]));
+  }, [pins, trips]);
 
-  // ==== UI ====
-  return (
-    <div className="w-full h-screen grid grid-cols-1 lg:grid-cols-[380px_minmax(0,1fr)]">
-      {/* Sidebar */}
-      <aside className="bg-white border-r hidden lg:flex flex-col">
-        <div className="p-4 flex items-center justify-between">
-          <div>
-            <h1 className="text-xl font-bold">GlobeAtlas</h1>
-            <p className="text-sm text-muted-foreground">Map your journeys & stories</p>
-          </div>
-          <div className="flex gap-2">
-            <Button variant="outline" size="icon" onClick={undo} title="Undo"><Undo2 className="w-4 h-4"/></Button>
-            <Button variant="outline" size="icon" onClick={redo} title="Redo"><Redo2 className="w-4 h-4"/></Button>
-          </div>
-        </div>
-        <Separator />
+  // Per-trip leg summary: great-circle distances plus routed distance/duration when available
+  const tripSummaries = useMemo(() => Object.fromEntries(trips.map(t => {
+    const legs = computeTripLegs(t, pins);
+    const mode = t.travelMode || "straight";
+    const key = mode !== "straight" && legs.length ? routeKey(mode, tripCoords(t, pins)) : null;
+    return [t.id, {
+      legs,
+      distance: legs.reduce((sum, l) => sum + l.distance, 0),
+      mode,
+      routeKey: key,
+      // Without a routing engine (e.g. a shared trip opened here) the mode can never be routed
+      route: !key ? null : router ? routes[key] || { status: "loading" } : { status: "unavailable" }
+    }];
+  })), [trips, pins, routes]);
+
+  // ==== Draw visible trip lines ====
+  const lastFitRef = useRef({ key: "", tripIds: [] });
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+
+    const visible = trips.filter(t => visibleTripIds.includes(t.id));
+    const legs = [];
+    const badges = [];
+    visible.forEach(trip => {
+      const stops = trip.pinIds
+        .map(id => ({ id, lngLat: dragPreview?.id === id ? dragPreview.lngLat : pins.find(p => p.id === id)?.lngLat }))
+        .filter(s => s.lngLat);
+      // Prefer the routed road geometry, except while a stop is being dragged
+      const routed = !dragPreview ? tripSummaries[trip.id]?.route?.result?.geometry : null;
+      // The trip whose itinerary is open is coloured per day instead of in its own colour
+      const dayColors = new Map(trip.id === itineraryTripId ? itineraryDays(trip, pins).flatMap(d => d.stops.map(s => [s.pin.id, d.color])) : []);
+      const color = trip.color || DEFAULT_TRIP_COLOR;
+      const properties = { tripId: trip.id, color, selected: trip.id === activeTripId };
+      legs.push(...tripLineFeatures(stops.map(s => s.lngLat), stops.map(s => dayColors.get(s.id) || color), routed, properties).features);
+      badges.push(...stops.map((s, i) => ({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: s.lngLat },
+        properties: { tripId: trip.id, color, number: i + 1 }
+      })));
+    });
+
+    // Update in place so lines follow a dragged marker smoothly
+    map.getSource(TRIP_SOURCE).setData({ type: "FeatureCollection", features: legs });
+    map.getSource(TRIP_STOP_SOURCE).setData({ type: "FeatureCollection", features: badges });
+
+    // Fit all visible trips when one is switched on. When only their stops change, refit
+    // unless the user has moved the map themselves since the last automatic fit.
+    const fitKey = visible.map(t => `${t.id}:${t.pinIds.join(",")}`).join("|");
+    const last = lastFitRef.current;
+    if (fitKey === last.key) return;
+    const shown = visible.some(t => !last.tripIds.includes(t.id));
+    lastFitRef.current = { key: fitKey, tripIds: visible.map(t => t.id) };
+    if (!badges.length || (!shown && userMovedMapRef.current)) return;
+    const coords = badges.map(f => f.geometry.coordinates);
+    const bounds = coords.reduce((b, c) => b.extend(c), new mapEngine.gl.LngLatBounds(coords[0], coords[0]));
+    map.fitBounds(bounds, { padding: 60, duration: 800, maxZoom: 15 });
+    userMovedMapRef.current = false;
+  }, [visibleTripIds, activeTripId, itineraryTripId, trips, pins, dragPreview, mapReady, tripSummaries]);
+
+  // ==== Trip playback ====
+  const playbackTimeline = useMemo(() => {
+    const trip = playback && trips.find(t => t.id === playback.tripId);
+    if (!trip) return null;
+    const stops = trip.pinIds.map(id => pins.find(p => p.id === id)).filter(Boolean);
+    return stops.length > 1 ? buildPlaybackTimeline(stops, tripSummaries[trip.id]?.route?.result?.geometry) : null;
+  }, [playback?.tripId, trips, pins, tripSummaries]);
+  const playbackNow = useMemo(() => playbackTimeline && playbackFrame(playbackTimeline, playback.t), [playbackTimeline, playback?.t]);
+
+  const playbackPopupRef = useRef(null); // stop index whose popup playback opened
+  const showPlaybackFrame = (frame) => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const color = trips.find(t => t.id === playback?.tripId)?.color;
+    map.getSource(PLAYBACK_SOURCE).setData({
+      type: "FeatureCollection",
+      features: frame.drawn.length > 1 ? [{ type: "Feature", geometry: { type: "LineString", coordinates: frame.drawn }, properties: { color } }] : []
+    });
+    map.jumpTo({ center: frame.center, zoom: frame.zoom });
+    // Open each stop's popup while the camera dwells there
+    if (frame.atStop && playbackPopupRef.current !== frame.stopIndex) {
+      playbackPopupRef.current = frame.stopIndex;
+      openPinPopup(map, popupRef, frame.stop, categories);
+    } else if (!frame.atStop && playbackPopupRef.current !== null) {
+      playbackPopupRef.current = null;
+      popupRef.current?.popup.remove();
+      popupRef.current = null;
+    }
+  };
+  const showPlaybackFrameRef = useRef(showPlaybackFrame);
+  showPlaybackFrameRef.current = showPlaybackFrame;
+
+  // Real-time driver: one advancePlayback() step per animation frame. The map is moved directly;
+  // React state (and with it the atlas UI) only changes when a new stop is reached or at the end.
+  useEffect(() => {
+    if (!playback?.playing || !playbackTimeline) return;
+    let stopIndex = playbackFrame(playbackTimeline, playbackTimeRef.current).stopIndex;
+    let last = performance.now();
+    let raf = requestAnimationFrame(function tick(now) {
+      const next = advancePlayback({ t: playbackTimeRef.current, playing: true, speed: playback.speed }, now - last, playbackTimeline);
+      last = now;
+      playbackTimeRef.current = next.t;
+      const frame = playbackFrame(playbackTimeline, next.t);
+      showPlaybackFrameRef.current(frame);
+      if (!next.playing || frame.stopIndex !== stopIndex) {
+        stopIndex = frame.stopIndex;
+        setPlayback(p => p && { ...p, t: next.t, playing: next.playing });
+      }
+      if (next.playing) raf = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(raf);
+  }, [playback?.playing, playback?.speed, playbackTimeline]);
+
+  const playbackActive = Boolean(playbackNow);
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    // The whole route stays visible, faded, under the part drawn so far
+    map.setPaintProperty(TRIP_LAYERS.line, "line-opacity", playbackActive ? 0.3 : TRIP_LINE_OPACITY);
+    if (!playbackActive) {
+      map.getSource(PLAYBACK_SOURCE).setData({ type: "FeatureCollection", features: [] });
+      playbackPopupRef.current = null;
+    }
+  }, [playbackActive, mapReady]);
+
+  // Paused or scrubbed: show the committed time (while playing, the driver draws every frame)
+  useEffect(() => {
+    if (playbackNow && !playback.playing) showPlaybackFrame(playbackNow);
+  }, [playbackNow, playback?.playing, mapReady]);
+
+  const startPlayback = (tripId) => {
+    playbackTimeRef.current = 0;
+    setPlayback(p => ({ tripId, t: 0, playing: true, speed: p?.speed || 1 }));
+    setVisibleTripIds(ids => ids.includes(tripId) ? ids : [...ids, tripId]);
+  };
+
+  // Controls change the committed state; the live time from the driver is committed along with it
+  const changePlayback = (changes) => {
+    if ("t" in changes) playbackTimeRef.current = changes.t;
+    setPlayback(p => p && { ...p, t: playbackTimeRef.current, ...changes });
+  };
+
+  // ==== Visited countries ====
+  // Wishlist and planned pins don't count as having been somewhere
+  const countryCounts = useMemo(() => pins.reduce((acc, p) => {
+    const country = statusOf(p.status).key === "visited" && pinCountry(p);
+    if (country) acc[country.id] = (acc[country.id] || 0) + 1;
+    return acc;
+  }, {}), [pins]);
+
+  // Only countries with pins are drawn; feature-state carries the count that drives the shade
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    const ids = Object.keys(countryCounts);
+    const filter = ["in", ["get", "id"], ["literal", ids]];
+    map.setFilter(COUNTRY_LAYERS.fill, filter);
+    map.setFilter(COUNTRY_LAYERS.outline, filter);
+    map.removeFeatureState({ source: COUNTRY_SOURCE });
+    ids.forEach(id => map.setFeatureState({ source: COUNTRY_SOURCE, id }, { pins: countryCounts[id], selected: id === pinFilter.country }));
+  }, [countryCounts, pinFilter.country, mapReady]);
+
+  const toggleCountryFilter = (id) => {
+    setPinFilter(f => ({ ...f, country: f.country === id ? "" : id }));
+    setSidebarTab("pins");
+  };
+  const toggleCountryFilterRef = useRef(toggleCountryFilter);
+  toggleCountryFilterRef.current = toggleCountryFilter;
+
+  // Bring the selected trip's card into view, e.g. after its line was clicked on the map
+  useEffect(() => {
+    if (!activeTripId) return;
+    document.querySelector(`[data-trip-id="${CSS.escape(activeTripId)}"]`)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeTripId, sidebarTab]);
+
+  // ==== Actions ====
+  // Every edit goes through commit() so it lands in the undo history.
+  const commit = (op, label, groupKey) => {
+    const next = applyOp(atlasRef.current, op);
+    atlasRef.current = next;
+    setAtlas(next);
+    undoHistory.record(op, label, groupKey);
+  };
+
+  const addPin = () => {
+    if (!draftLngLat) return;
+    const pin = {
+      id: crypto.randomUUID(),
+      title: draftPin.title || "Untitled place",
+      description: draftPin.description || "",
+      category: categories.some(c => c.key === draftPin.category) ? draftPin.category : categories[0]?.key || "other",
+      date: draftPin.date || new Date().toISOString().slice(0,10),
+      lngLat: draftLngLat,
+      status: statusOf(draftPin.status).key,
+      ...(draftPin.address ? { address: draftPin.address } : {}),
+    };
+
+    commit({ type: "pin/add", pin, index: 0 }, `Added pin ${pin.title}`);
+    setDraftLngLat(null);
+    setDraftPin(s => ({ title: "", description: "", address: "", category: s.category, status: s.status, date: new Date().toISOString().slice(0,10) }));
+    autoTitleRef.current = "";
+    setReverseStatus({ status: "idle" });
+  };
+
+  const deletePin = (id) => {
+    const { pins, trips } = atlasRef.current;
+    const index = pins.findIndex(p => p.id === id);
+    if (index === -1) return;
+    // Detach the pin from trips first so undo restores it at the same stop positions
+    const detach = trips
+      .filter(t => t.pinIds.includes(id))
+      .map(t => {
+        const index = t.pinIds.indexOf(id);
+        return { type: "trip/removePin", tripId: t.id, pinId: id, index, after: stopAfter(t.pinIds, id, index) };
+      });
+    commit({ type: "batch", ops: [...detach, { type: "pin/remove", pin: pins[index], index }] }, `Deleted pin ${pins[index].title}`);
+    if (selectedPinId === id) setSelectedPinId(null);
+    if (editing?.pinId === id) setEditing(null);
+  };
+
+  const updatePin = (id, changes, customLabel) => {
+    const pin = atlasRef.current.pins.find(p => p.id === id);
+    if (!pin) return;
+    const changed = Object.keys(changes).filter(k => JSON.stringify(pin[k]) !== JSON.stringify(changes[k]));
+    if (!changed.length) return;
+    const before = Object.fromEntries(changed.map(k => [k, pin[k]]));
+    const after = Object.fromEntries(changed.map(k => [k, changes[k]]));
+    const label = customLabel || (changed.length === 1 && changed[0] === "lngLat" ? `Moved pin ${pin.title}` : `Edited pin ${after.title ?? pin.title}`);
+    commit({ type: "pin/update", id, before, after }, label);
+  };
+  // Map listeners are registered once; the ref keeps them calling the latest updatePin
+  const updatePinRef = useRef(updatePin);
+  updatePinRef.current = updatePin;
+
+  const setPinStatus = (id, status) => {
+    const pin = atlasRef.current.pins.find(p => p.id === id);
+    if (pin) updatePin(id, { status }, `Marked ${pin.title} as ${statusOf(status).label.toLowerCase()}`);
+  };
+
+  const ratePin = (id, rating) => {
+    const pin = atlasRef.current.pins.find(p => p.id === id);
+    if (pin) updatePin(id, { rating: rating || undefined }, rating ? `Rated ${pin.title} ${rating}/${MAX_RATING}` : `Cleared rating of ${pin.title}`);
+  };
+
+  // One undo step for a whole trip, e.g. after coming home
+  const markTripVisited = (tripId) => {
+    const { pins, trips } = atlasRef.current;
+    const trip = trips.find(t => t.id === tripId);
+    if (!trip) return;
+    const ops = trip.pinIds
+      .map(id => pins.find(p => p.id === id))
+      .filter(p => p && statusOf(p.status).key !== "visited")
+      .map(p => ({ type: "pin/update", id: p.id, before: { status: p.status }, after: { status: "visited" } }));
+    if (!ops.length) return;
+    commit({ type: "batch", ops }, `Marked ${ops.length === 1 ? "1 stop" : `${ops.length} stops`} of ${trip.name} as visited`);
+  };
+
+  const savePinEdit = (id, changes) => {
+    updatePin(id, changes);
+    setEditing(null);
+  };
+
+  // ==== Attachments ====
+  // Blobs are written to IndexedDB first; the pin only stores their ids, so undo is just an id change
+  const attachFiles = async (pinId, files) => {
+    if (!files.length) return;
+    setAttachmentError(null);
+    try {
+      const records = await Promise.all(files.map(f => attachmentStore.add(f)));
+      const pin = atlasRef.current.pins.find(p => p.id === pinId);
+      if (!pin) return;
+      updatePin(pinId, { attachmentIds: [...(pin.attachmentIds || []), ...records.map(r => r.id)] },
+        `Added ${records.length === 1 ? "1 attachment" : `${records.length} attachments`} to ${pin.title}`);
+    } catch (err) {
+      setAttachmentError(`Could not store attachment: ${err.message}`);
+    }
+  };
+
+  const removeAttachment = (pinId, attachmentId) => {
+    const pin = atlasRef.current.pins.find(p => p.id === pinId);
+    if (!pin) return;
+    updatePin(pinId, { attachmentIds: (pin.attachmentIds || []).filter(id => id !== attachmentId) }, `Removed an attachment from ${pin.title}`);
+  };
+
+  // Dropping photos on the map turns geotagged ones into draft pins for review
+  const dropPhotos = async (files) => {
+    const images = files.filter(f => f.type.startsWith("image/"));
+    if (readOnly || !images.length) return;
+    const located = [];
+    for (const file of images) {
+      const exif = await readExif(file);
+      if (exif.lngLat) located.push({ file, ...exif });
+    }
+    setPhotoImport({ drafts: groupPhotoDrafts(located), skipped: images.length - located.length });
+  };
+
+  const updatePhotoDraft = (key, changes) => {
+    setPhotoImport(prev => prev && ({ ...prev, drafts: prev.drafts.map(d => d.key === key ? { ...d, ...changes } : d) }));
+  };
+
+  const confirmPhotoDrafts = async () => {
+    const chosen = photoImport.drafts.filter(d => d.include);
+    try {
+      const newPins = await Promise.all(chosen.map(async d => {
+        const records = await Promise.all(d.files.map(f => attachmentStore.add(f)));
+        return {
+          id: crypto.randomUUID(),
+          title: d.title.trim() || "Untitled place",
+          description: "",
+          category: categories.some(c => c.key === draftPin.category) ? draftPin.category : categories[0]?.key || "other",
+          date: d.date || new Date().toISOString().slice(0, 10),
+          lngLat: d.lngLat,
+          status: "visited", // a geotagged photo means we were there
+          attachmentIds: records.map(r => r.id)
+        };
+      }));
+      commit({ type: "batch", ops: newPins.map((pin, index) => ({ type: "pin/add", pin, index })) },
+        `Created ${newPins.length} pins from photos`);
+      setPhotoImport(null);
+    } catch (err) {
+      setPhotoImport(prev => prev && ({ ...prev, error: `Could not store photos: ${err.message}` }));
+    }
+  };
+
+  // Temporary markers for photo drafts awaiting confirmation
+  useEffect(() => {
+    const map = mapRef.current;
+    photoMarkersRef.current.forEach(m => m.remove());
+    photoMarkersRef.current = !map || !photoImport ? [] : photoImport.drafts
+      .filter(d => d.include)
+      .map(d => new mapEngine.gl.Marker({ color: "#f59e0b" }).setLngLat(d.lngLat).addTo(map));
+  }, [photoImport]);
+
+  const createTrip = () => {
+    if (!newTripName.trim()) return;
+    const trip = { id: crypto.randomUUID(), name: newTripName.trim(), color: nextTripColor(trips), pinIds: [] };
+    commit({ type: "trip/add", trip, index: 0 }, `Created trip ${trip.name}`);
+    setNewTripName("");
+    setActiveTripId(trip.id);
+    setVisibleTripIds(ids => [...ids, trip.id]);
+  };
+
+  // The open itinerary colours its trip's line by day, so make sure that line is on the map
+  const openItinerary = (tripId) => {
+    const open = itineraryTripId !== tripId;
+    setItineraryTripId(open ? tripId : null);
+    if (open) setVisibleTripIds(ids => ids.includes(tripId) ? ids : [...ids, tripId]);
+  };
+
+  const toggleTripVisible = (tripId) => {
+    setVisibleTripIds(ids => ids.includes(tripId) ? ids.filter(id => id !== tripId) : [...ids, tripId]);
+  };
+
+  const selectTrip = (tripId) => {
+    setActiveTripId(tripId);
+    setSidebarTab("trips");
+  };
+  const selectTripRef = useRef(selectTrip);
+  selectTripRef.current = selectTrip;
+
+  const togglePinInTrip = (tripId, pinId) => {
+    const trip = atlasRef.current.trips.find(t => t.id === tripId);
+    const pin = atlasRef.current.pins.find(p => p.id === pinId);
+    if (!trip || !pin) return;
+    const index = trip.pinIds.indexOf(pinId);
+    if (index === -1) {
+      const end = trip.pinIds.length;
+      commit({ type: "trip/addPin", tripId, pinId, index: end, after: stopAfter(trip.pinIds, pinId, end) }, `Added ${pin.title} to ${trip.name}`);
+    } else {
+      commit({ type: "trip/removePin", tripId, pinId, index, after: stopAfter(trip.pinIds, pinId, index) }, `Removed ${pin.title} from ${trip.name}`);
+    }
+  };
+
+  const reorderTripPins = (tripId, pinId, direction) => {
+    const trip = atlasRef.current.trips.find(t => t.id === tripId);
+    const from = trip ? trip.pinIds.indexOf(pinId) : -1;
+    if (from === -1) return;
+    moveTripPin(tripId, pinId, direction === "up" ? from - 1 : from + 1);
+  };
+
+  const moveTripPin = (tripId, pinId, to) => {
+    const trip = atlasRef.current.trips.find(t => t.id === tripId);
+    const from = trip ? trip.pinIds.indexOf(pinId) : -1;
+    if (from === -1 || from === to || to < 0 || to >= trip.pinIds.length) return;
+    const op = { type: "trip/movePin", tripId, pinId, from, to, fromAfter: stopAfter(trip.pinIds, pinId, from), toAfter: stopAfter(trip.pinIds, pinId, to) };
+    commit(op, `Reordered stops in ${trip.name}`, `reorder:${tripId}`);
+  };
+
+  // Drag a stop by its handle; works with mouse, pen and touch alike. The drop slot is the
+  // gap between rows nearest to the pointer, and only the drop is recorded.
+  const beginStopDrag = (e, tripId, pinId) => {
+    if (e.button > 0) return;
+    e.preventDefault();
+    const rows = Array.from(e.currentTarget.closest("[data-stop-list]").querySelectorAll("[data-stop-row]"));
+    const ids = rows.map(r => r.dataset.stopRow);
+    const slotAt = (y) => rows.filter(r => { const b = r.getBoundingClientRect(); return y > b.top + b.height / 2; }).length;
+    setStopDrag({ tripId, pinId, slot: ids.indexOf(pinId) });
+    const move = (ev) => setStopDrag(d => d && { ...d, slot: slotAt(ev.clientY) });
+    const end = (ev) => {
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", end);
+      window.removeEventListener("pointercancel", end);
+      setStopDrag(null);
+      if (ev.type === "pointercancel") return;
+      const slot = slotAt(ev.clientY);
+      // The stop that will follow the dropped one; rows only show existing pins, so the
+      // position is looked up again in the trip's own pinIds
+      const before = ids.filter(id => id !== pinId)[slot > ids.indexOf(pinId) ? slot - 1 : slot];
+      const remaining = (atlasRef.current.trips.find(t => t.id === tripId)?.pinIds || []).filter(id => id !== pinId);
+      moveTripPin(tripId, pinId, before ? remaining.indexOf(before) : remaining.length);
+    };
+    window.addEventListener("pointermove", move);
+    window.addEventListener("pointerup", end);
+    window.addEventListener("pointercancel", end);
+  };
+
+  const updateTrip = (id, changes, label, groupKey) => {
+    const trip = atlasRef.current.trips.find(t => t.id === id);
+    if (!trip) return;
+    const changed = Object.keys(changes).filter(k => JSON.stringify(trip[k]) !== JSON.stringify(changes[k]));
+    if (!changed.length) return;
+    const before = Object.fromEntries(changed.map(k => [k, trip[k]]));
+    const after = Object.fromEntries(changed.map(k => [k, changes[k]]));
+    commit({ type: "trip/update", id, before, after }, label || `Edited trip ${trip.name}`, groupKey);
+  };
+
+  const setTripTravelMode = (tripId, mode) => {
+    const trip = atlasRef.current.trips.find(t => t.id === tripId);
+    const label = TRAVEL_MODES.find(m => m.key === mode)?.label || mode;
+    if (trip) updateTrip(tripId, { travelMode: mode }, `Set ${trip.name} travel mode to ${label.toLowerCase()}`);
+  };
+
+  const setTripColor = (tripId, color) => {
+    const trip = atlasRef.current.trips.find(t => t.id === tripId);
+    // Dragging the colour picker collapses into one history entry
+    if (trip) updateTrip(tripId, { color }, `Recoloured trip ${trip.name}`, `trip-color:${tripId}`);
+  };
+
+  const applyOptimisedOrder = (tripId, pinIds) => {
+    const trip = atlasRef.current.trips.find(t => t.id === tripId);
+    if (trip) updateTrip(tripId, { pinIds }, `Optimised stop order of ${trip.name}`);
+    setOptimisingTripId(null);
+  };
+
+  const exportItinerary = (trip) => {
+    downloadText(`${fileSlug(trip.name, "trip")}.ics`, tripToICS(trip, pins), "text/calendar");
+  };
+
+  // ==== Sharing ====
+  const shareTrip = async (trip) => {
+    setShareState({ tripId: trip.id, status: "working" });
+    try {
+      const payload = sharePayload(trip, pins, categories, currencies);
+      const url = shareUrl(await encodeSharePayload(payload));
+      if (url.length > MAX_SHARE_URL_LENGTH) {
+        // Too long for a link: hand over the same payload as a file the import panel understands
+        downloadText(`${fileSlug(trip.name, "trip")}${SHARE_FILE_SUFFIX}`, JSON.stringify(payload, null, 2), "application/json");
+        setShareState({ tripId: trip.id, status: "file" });
+        return;
+      }
+      const copied = await navigator.clipboard?.writeText(url).then(() => true, () => false);
+      setShareState({ tripId: trip.id, status: "link", url, copied: Boolean(copied) });
+    } catch (err) {
+      setShareState({ tripId: trip.id, status: "error", message: err?.message || "Could not create a share link." });
+    }
+  };
+
+  const leaveViewer = () => {
+    window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}`);
+    setLoadState("loading");
+    setSharedLink(null);
+    setVisibleTripIds([]);
+    setActiveTripId(null);
+  };
+
+  // The copy is committed once the user's own atlas has loaded, so it can be undone like any import
+  const copySharedTrip = () => {
+    pendingShareCopyRef.current = atlasRef.current;
+    leaveViewer();
+  };
+
+  const deleteTrip = (tripId) => {
+    const index = atlasRef.current.trips.findIndex(t => t.id === tripId);
+    if (index === -1) return;
+    const trip = atlasRef.current.trips[index];
+    commit({ type: "trip/remove", trip, index }, `Deleted trip ${trip.name}`);
+    if (activeTripId === tripId) setActiveTripId(null);
+    setVisibleTripIds(ids => ids.filter(id => id !== tripId));
+  };
+
+  // ==== Categories ====
+  const addCategory = (label) => {
+    const { categories } = atlasRef.current;
+    if (!label.trim()) return;
+    const category = {
+      key: categoryKeyFor(label, categories),
+      label: label.trim(),
+      color: CATEGORY_PALETTE[categories.length % CATEGORY_PALETTE.length],
+      icon: "📍"
+    };
+    commit({ type: "category/add", category, index: categories.length }, `Added category ${category.label}`);
+  };
+
+  const updateCategory = (key, changes) => {
+    const category = atlasRef.current.categories.find(c => c.key === key);
+    if (!category) return;
+    // A category always keeps a name; a blank rename leaves the previous label
+    if ("label" in changes) {
+      const { label, ...rest } = changes;
+      changes = label.trim() ? { ...rest, label: label.trim() } : rest;
+    }
+    const changed = Object.keys(changes).filter(k => category[k] !== changes[k]);
+    if (!changed.length) return;
+    const before = Object.fromEntries(changed.map(k => [k, category[k]]));
+    const after = Object.fromEntries(changed.map(k => [k, changes[k]]));
+    const label = "label" in after ? `Renamed category ${category.label} to ${after.label}`
+      : "color" in after ? `Recoloured category ${category.label}`
+      : `Changed icon of category ${category.label}`;
+    // Typing a name or dragging the colour picker collapses into one history entry
+    commit({ type: "category/update", key, before, after }, label, `category:${key}:${changed.join()}`);
+  };
+
+  const deleteCategory = (key, reassignTo) => {
+    const { pins, categories } = atlasRef.current;
+    const index = categories.findIndex(c => c.key === key);
+    if (index === -1 || categories.length < 2) return;
+    const target = categoryOf(categories, reassignTo);
+    const moves = pins
+      .filter(p => p.category === key)
+      .map(p => ({ type: "pin/update", id: p.id, before: { category: key }, after: { category: target.key } }));
+    const label = moves.length
+      ? `Deleted category ${categories[index].label} (moved ${moves.length} pins to ${target.label})`
+      : `Deleted category ${categories[index].label}`;
+    commit({ type: "batch", ops: [...moves, { type: "category/remove", category: categories[index], index }] }, label);
+    if (draftPin.category === key) setDraftPin(s => ({ ...s, category: target.key || categories.find(c => c.key !== key).key }));
+  };
+
+  // ==== Budgets & expenses ====
+  const addExpense = (pinId, expense) => {
+    const pin = atlasRef.current.pins.find(p => p.id === pinId);
+    if (!pin) return;
+    updatePin(pinId, { expenses: [...(pin.expenses || []), { id: crypto.randomUUID(), ...expense }] },
+      `Added ${formatMoney(expense.amount, expense.currency)} expense to ${pin.title}`);
+  };
+
+  const removeExpense = (pinId, expenseId) => {
+    const pin = atlasRef.current.pins.find(p => p.id === pinId);
+    const expense = pin?.expenses?.find(e => e.id === expenseId);
+    if (!expense) return;
+    const rest = pin.expenses.filter(e => e.id !== expenseId);
+    updatePin(pinId, { expenses: rest.length ? rest : undefined }, `Removed ${formatMoney(expense.amount, expense.currency)} expense from ${pin.title}`);
+  };
+
+  const setTripBudget = (tripId, budget) => {
+    const trip = atlasRef.current.trips.find(t => t.id === tripId);
+    if (!trip) return;
+    // Typing an amount fires per keystroke; keep it to one history entry
+    updateTrip(tripId, { budget }, budget ? `Set budget of ${trip.name} to ${formatMoney(budget.amount, budget.currency)}` : `Removed budget of ${trip.name}`, `budget:${tripId}`);
+  };
+
+  const addCurrency = (code, rate) => {
+    const { currencies } = atlasRef.current;
+    if (!isCurrencyCode(code) || currencies.some(c => c.code === code)) return;
+    const currency = rate > 0 ? { code, rate } : { code };
+    commit({ type: "currency/add", currency, index: currencies.length }, `Added currency ${code}`);
+  };
+
+  const setCurrencyRate = (code, rate) => {
+    const currency = atlasRef.current.currencies.find(c => c.code === code);
+    if (!currency || currency.home || currency.rate === rate) return;
+    commit({ type: "currency/update", code, before: { rate: currency.rate }, after: { rate } }, `Set ${code} rate`, `currency:${code}:rate`);
+  };
+
+  const setHomeCurrency = (code) => {
+    const ops = homeCurrencyOps(atlasRef.current.currencies, code);
+    if (ops.length) commit({ type: "batch", ops }, `Made ${code} the home currency`);
+  };
+
+  const deleteCurrency = (code) => {
+    const { currencies } = atlasRef.current;
+    const index = currencies.findIndex(c => c.code === code);
+    if (index === -1 || currencies[index].home) return;
+    commit({ type: "currency/remove", currency: currencies[index], index }, `Deleted currency ${code}`);
+  };
+
+  const exportTripExpenses = (trip) => {
+    const stops = trip.pinIds.map(id => pins.find(p => p.id === id)).filter(Boolean);
+    const text = expensesToCSV(stops, [trip], currencies, tripBudgets[trip.id].currency);
+    downloadText(`${fileSlug(trip.name, "trip")}-expenses.csv`, text, "text/csv");
+  };
+
+  const exportAllExpenses = () => {
+    const text = expensesToCSV(pins, trips, currencies, homeCurrency(currencies).code);
+    downloadText(`globeatlas-expenses-${new Date().toISOString().slice(0,10)}.csv`, text, "text/csv");
+  };
+
+  // ==== Import / export ====
+  const exportAtlas = (format) => {
+    const { text, mime, ext } = serializeAtlas(format, pins, trips);
+    downloadText(`globeatlas-${new Date().toISOString().slice(0,10)}.${ext}`, text, mime);
+  };
+
+  const readImportFile = async (file) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      const parsed = parseAtlasFile(await file.text(), file.name);
+      setImportPreview({ fileName: file.name, ...planImport(pins, trips, parsed) });
+    } catch (err) {
+      setImportPreview(null);
+      setImportError(err?.message || "Could not read this file.");
+    }
+  };
+
+  const toggleImportItem = (kind, index) => {
+    setImportPreview(prev => prev && ({
+      ...prev,
+      [kind]: prev[kind].map((item, i) => i === index ? { ...item, include: !item.include } : item)
+    }));
+  };
+
+  const commitImport = () => {
+    if (!importPreview) return;
+    const added = applyImport(pins, trips, importPreview);
+    const addedTrips = added.trips.reduce((list, t) => [...list, { ...t, color: t.color || nextTripColor([...trips, ...list]) }], []);
+    // Shared trip files bring their own category colours/icons and rates
+    const knownCategories = [...categories, ...importPreview.categories.filter(c =>
+      !categories.some(m => m.key === c.key) && added.pins.some(p => p.category === c.key))];
+    const newCategories = withMissingCategories(knownCategories, added.pins).slice(categories.length);
+    const newCurrencies = withMissingCurrencies(currencies, added.pins, addedTrips, importPreview.currencies).slice(currencies.length);
+    commit({
+      type: "batch",
+      ops: [
+        ...newCategories.map((category, i) => ({ type: "category/add", category, index: categories.length + i })),
+        ...newCurrencies.map((currency, i) => ({ type: "currency/add", currency, index: currencies.length + i })),
+        ...added.pins.map((pin, index) => ({ type: "pin/add", pin, index })),
+        ...addedTrips.map((trip, index) => ({ type: "trip/add", trip, index }))
+      ]
+    }, `Imported ${added.pins.length} pins and ${added.trips.length} trips from ${importPreview.fileName}`);
+    setImportPreview(null);
+  };
+
+  const undo = () => {
+    const entry = undoHistory.takeUndo();
+    if (!entry) return;
+    const next = applyOp(atlasRef.current, invertOp({ type: "batch", ops: entry.ops }));
+    atlasRef.current = next;
+    setAtlas(next);
+  };
+
+  const redo = () => {
+    const entry = undoHistory.takeRedo();
+    if (!entry) return;
+    const next = applyOp(atlasRef.current, { type: "batch", ops: entry.ops });
+    atlasRef.current = next;
+    setAtlas(next);
+  };
+
+  // Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes; text fields keep their own undo
+  const shortcutsRef = useRef(null);
+  shortcutsRef.current = { undo, redo };
+  useEffect(() => {
+    const onKeyDown = (e) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) shortcutsRef.current.redo(); else shortcutsRef.current.undo();
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        shortcutsRef.current.redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // ==== Derived state ====
+  const categoryCounts = useMemo(() => categoryTotals(pins), [pins]);
+  const tripBudgets = useMemo(() => Object.fromEntries(trips.map(t => [t.id, tripExpenseSummary(t, pins, currencies)])), [trips, pins, currencies]);
+  const currencyUsage = useMemo(() => usedCurrencies(pins, trips), [pins, trips]);
+  const hasExpenses = pins.some(p => p.expenses?.length);
+  const reportTrip = trips.find(t => t.id === reportTripId) || null;
+  // furthestPair is costly on large atlases; skip it on every edit and merge while the tab is closed
+  const stats = useMemo(() => sidebarTab === "stats" ? atlasStats(pins, trips) : null, [pins, trips, sidebarTab]);
+  const selectedPin = useMemo(() => pins.find(p => p.id === selectedPinId) || null, [pins, selectedPinId]);
 
-        <Tabs defaultValue="pins" className="flex-1 flex flex-col">
-          <div className="p-4">
-            <TabsList className="grid grid-cols-2 w-full">
-              <TabsTrigger value="pins">Pins</TabsTrigger>
-              <TabsTrigger value="trips">Trips</TabsTrigger>
-            </TabsList>
+  // ==== UI ====
+  return (
+    <div className="w-full h-screen grid grid-cols-1 lg:grid-cols-[380px_minmax(0,1fr)]">
+      {/* Sidebar; a bottom sheet over the map on small screens */}
+      <aside className={`bg-white flex flex-col fixed inset-x-0 bottom-0 z-30 rounded-t-2xl border-t shadow-2xl overflow-y-auto transition-[height] duration-300
+        lg:static lg:z-auto lg:h-auto lg:rounded-none lg:border-t-0 lg:border-r lg:shadow-none lg:overflow-visible lg:transition-none ${SHEET_HEIGHTS[sheet]}`}>
+        <button type="button" className="lg:hidden w-full pt-2 pb-1 flex justify-center touch-none shrink-0" aria-label="Resize panel"
+          onPointerDown={(e) => { sheetDragRef.current = e.clientY; e.currentTarget.setPointerCapture(e.pointerId); }}
+          onPointerUp={(e) => {
+            if (sheetDragRef.current === null) return;
+            const dy = e.clientY - sheetDragRef.current;
+            sheetDragRef.current = null;
+            setSheet(s => nextSheetSnap(s, dy));
+          }}>
+          <span className="h-1.5 w-12 rounded-full bg-muted-foreground/30"/>
+        </button>
+        <div className="p-4 pt-2 lg:pt-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold">GlobeAtlas</h1>
+            <p className="text-sm text-muted-foreground">Map your journeys & stories</p>
+          </div>
+          {readOnly ? (
+            <Badge variant="secondary">Read-only</Badge>
+          ) : (
+            <div className="flex gap-2">
+              <Button variant="outline" size="icon" onClick={undo} disabled={!undoHistory.past.length}
+                title={undoHistory.past.length ? `Undo: ${undoHistory.past[undoHistory.past.length - 1].label} (Ctrl/Cmd+Z)` : "Nothing to undo"}><Undo2 className="w-4 h-4"/></Button>
+              <Button variant="outline" size="icon" onClick={redo} disabled={!undoHistory.future.length}
+                title={undoHistory.future.length ? `Redo: ${undoHistory.future[undoHistory.future.length - 1].label} (Shift+Ctrl/Cmd+Z)` : "Nothing to redo"}><Redo2 className="w-4 h-4"/></Button>
+              <Button variant={historyOpen ? "default" : "outline"} size="icon" onClick={() => setHistoryOpen(o => !o)} title="History"><HistoryIcon className="w-4 h-4"/></Button>
+            </div>
+          )}
+        </div>
+
+        {readOnly && loadState === "ready" && (
+          <div className="px-4 pb-3">
+            <Card className="shadow-sm bg-blue-50 border-blue-200">
+              <CardContent className="p-3 space-y-2">
+                <div className="text-sm">You are viewing a shared trip. Nothing here is saved unless you copy it.</div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={copySharedTrip}><Plus className="w-4 h-4 mr-1"/>Copy into my atlas</Button>
+                  <Button size="sm" variant="ghost" onClick={leaveViewer}>Open my atlas</Button>
+                </div>
+              </CardContent>
+            </Card>
           </div>
+        )}
 
-          <TabsContent value="pins" className="flex-1 overflow-hidden">
-            <div className="px-4 pb-4 space-y-3">
+        {historyOpen && !readOnly && (
+          <div className="px-4 pb-3">
+            <ScrollArea className="max-h-48 rounded-xl border">
+              <div className="p-2 space-y-1 text-sm">
+                {!undoHistory.past.length && !undoHistory.future.length && <div className="text-xs text-muted-foreground p-1">No edits yet.</div>}
+                {undoHistory.future.map((entry, i) => (
+                  <div key={`f-${i}`} className="flex justify-between gap-2 px-2 py-1 text-muted-foreground line-through">
+                    <span className="truncate">{entry.label}</span>
+                  </div>
+                ))}
+                {[...undoHistory.past].reverse().map((entry, i) => (
+                  <div key={`p-${i}`} className={`flex justify-between gap-2 px-2 py-1 rounded-lg ${i === 0 ? "bg-muted/50" : ""}`}>
+                    <span className="truncate">{entry.label}</span>
+                    <span className="text-xs text-muted-foreground shrink-0">{new Date(entry.at).toLocaleTimeString()}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+        <Separator />
+
+        <Tabs value={sidebarTab} onValueChange={setSidebarTab} className="flex-1 flex flex-col">
+          <div className="p-4 space-y-3">
+            <div className="flex gap-2">
+              <TabsList className="grid grid-cols-3 flex-1">
+                <TabsTrigger value="pins">Pins</TabsTrigger>
+                <TabsTrigger value="trips">Trips</TabsTrigger>
+                <TabsTrigger value="stats">Stats</TabsTrigger>
+              </TabsList>
+              {!readOnly && (
+                <Button variant={dataPanelOpen ? "default" : "outline"} size="icon" onClick={() => setDataPanelOpen(o => !o)} title="Import / export">
+                  <ArrowDownUp className="w-4 h-4"/>
+                </Button>
+              )}
+            </div>
+
+            {dataPanelOpen && !readOnly && (
               <Card className="shadow-sm">
                 <CardHeader className="pb-2">
-                  <CardTitle className="flex items-center gap-2 text-base"><MapPin className="w-4 h-4"/> Add a pin</CardTitle>
+                  <CardTitle className="flex items-center justify-between text-base">
+                    <span className="flex items-center gap-2"><ArrowDownUp className="w-4 h-4"/> Import / export</span>
+                    <Button size="icon" variant="ghost" onClick={() => setDataPanelOpen(false)} title="Close"><X className="w-4 h-4"/></Button>
+                  </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
-                  <div className="grid grid-cols-2 gap-2">
-                    <Input placeholder="Title" value={draftPin.title} onChange={e => setDraftPin(s => ({...s, title: e.target.value}))} />
-                    <Input type="date" value={draftPin.date} onChange={e => setDraftPin(s => ({...s, date: e.target.value}))} />
-                  </div>
-                  <Textarea placeholder="Description" value={draftPin.description} onChange={e => setDraftPin(s => ({...s, description: e.target.value}))} />
-                  <div className="grid grid-cols-2 gap-2 items-center">
-                    <Select value={draftPin.category} onValueChange={(v) => setDraftPin(s => ({...s, category: v}))}>
-                      <SelectTrigger><SelectValue placeholder="Category"/></SelectTrigger>
-                      <SelectContent>
-                        {categories.map(c => (
-                          <SelectItem key={c.key} value={c.key}>{c.label}</SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <Button onClick={addPin} disabled={!draftLngLat} className="flex items-center gap-2"><Plus className="w-4 h-4"/> Drop here</Button>
+                  <div className="text-xs text-muted-foreground">Export all pins and trips</div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {EXPORT_FORMATS.map(f => (
+                      <Button key={f.key} size="sm" variant="outline" onClick={() => exportAtlas(f.key)}><Download className="w-4 h-4 mr-1"/>{f.label}</Button>
+                    ))}
                   </div>
-                  <p className="text-xs text-muted-foreground">Tip: Click on the map to choose a location, then press "Drop here".</p>
+                  <Button size="sm" variant="outline" className="w-full" disabled={!hasExpenses} onClick={exportAllExpenses}>
+                    <Download className="w-4 h-4 mr-1"/>All expenses (CSV, in {homeCurrency(currencies).code})
+                  </Button>
+
+                  <Separator/>
+
+                  <div className="text-xs text-muted-foreground">Import GeoJSON, GPX, KML or a shared trip file (merged into your atlas)</div>
+                  <Input type="file" accept=".geojson,.json,.gpx,.kml" onChange={e => { readImportFile(e.target.files?.[0]); e.target.value = ""; }} />
+                  {importError && <p className="text-xs text-red-600">{importError}</p>}
+
+                  {importPreview && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm font-medium truncate">{importPreview.fileName}</div>
+                        <Badge variant="secondary">{importPreview.format.toUpperCase()}</Badge>
+                      </div>
+                      <ScrollArea className="h-48 pr-2">
+                        <div className="space-y-1">
+                          {importPreview.pins.map((item, i) => (
+                            <label key={`pin-${i}`} className="flex items-center gap-2 text-sm">
+                              <Checkbox checked={item.include} onCheckedChange={() => toggleImportItem("pins", i)} />
+                              <MapPin className="w-3 h-3 shrink-0"/>
+                              <span className="truncate flex-1">{item.pin.title}</span>
+                              {item.duplicateOf && <Badge variant="outline" className="text-[10px]">duplicate</Badge>}
+                            </label>
+                          ))}
+                          {importPreview.trips.map((item, i) => (
+                            <label key={`trip-${i}`} className="flex items-center gap-2 text-sm">
+                              <Checkbox checked={item.include} onCheckedChange={() => toggleImportItem("trips", i)} />
+                              <RouteIcon className="w-3 h-3 shrink-0"/>
+                              <span className="truncate flex-1">{item.trip.name} ({item.trip.pinIds.length} stops)</span>
+                              {item.duplicateOf && <Badge variant="outline" className="text-[10px]">duplicate</Badge>}
+                            </label>
+                          ))}
+                        </div>
+                      </ScrollArea>
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={commitImport} disabled={![...importPreview.pins, ...importPreview.trips].some(i => i.include)}>
+                          Import {importPreview.pins.filter(i => i.include).length} pins, {importPreview.trips.filter(i => i.include).length} trips
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setImportPreview(null)}>Cancel</Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">Duplicates (same id, or same title within {DUPLICATE_RADIUS_M} m) are unchecked by default.</p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
+            )}
+          </div>
+
+          <TabsContent value="pins" className="flex-1 overflow-hidden">
+            <div className="px-4 pb-4 space-y-3">
+              {!readOnly && (
+                <Card className="shadow-sm">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center gap-2 text-base"><MapPin className="w-4 h-4"/> Add a pin</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="space-y-1">
+                      <div className="flex gap-2">
+                        <div className="relative flex-1">
+                          <Search className="w-4 h-4 absolute left-2.5 top-2.5 text-muted-foreground"/>
+                          <Input className="pl-8" placeholder={geocoder.autocomplete ? "Search for a place" : "Search for a place, then press Enter"}
+                            value={placeQuery} onChange={e => setPlaceQuery(e.target.value)}
+                            onKeyDown={e => { if (e.key === "Enter") setSubmittedPlaceQuery(placeQuery.trim()); }} />
+                        </div>
+                        <Button variant="outline" size="icon" onClick={pinMyLocation} disabled={locateStatus.status === "locating"} title="Pin my current location">
+                          <LocateFixed className="w-4 h-4"/>
+                        </Button>
+                      </div>
+                      {locateStatus.status === "locating" && <p className="text-xs text-muted-foreground">Finding your location…</p>}
+                      {locateStatus.status === "error" && <p className="text-xs text-red-600">{locateStatus.error}</p>}
+                      {placeResults.status === "loading" && <p className="text-xs text-muted-foreground">Searching…</p>}
+                      {placeResults.status === "error" && <p className="text-xs text-red-600">{placeResults.error}</p>}
+                      {placeResults.status === "ok" && placeResults.items.length === 0 && <p className="text-xs text-muted-foreground">No places found.</p>}
+                      {placeResults.items.length > 0 && (
+                        <div className="rounded-xl border divide-y">
+                          {placeResults.items.map(place => (
+                            <button key={place.id} type="button" className="w-full text-left px-3 py-2 hover:bg-muted/50" onClick={() => choosePlace(place)}>
+                              <div className="text-sm font-medium truncate">{place.name}</div>
+                              <div className="text-xs text-muted-foreground truncate">{place.address}</div>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input placeholder="Title" value={draftPin.title} onChange={e => setDraftPin(s => ({...s, title: e.target.value}))} />
+                      <Input type="date" value={draftPin.date} onChange={e => setDraftPin(s => ({...s, date: e.target.value}))} />
+                    </div>
+                    <Textarea placeholder="Description" value={draftPin.description} onChange={e => setDraftPin(s => ({...s, description: e.target.value}))} />
+                    <div className="grid grid-cols-2 gap-2 items-center">
+                      <Select value={draftPin.category} onValueChange={(v) => setDraftPin(s => ({...s, category: v}))}>
+                        <SelectTrigger><SelectValue placeholder="Category"/></SelectTrigger>
+                        <SelectContent>
+                          {categories.map(c => (
+                            <SelectItem key={c.key} value={c.key}>{c.icon} {c.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={draftPin.status} onValueChange={(v) => setDraftPin(s => ({...s, status: v}))}>
+                        <SelectTrigger><SelectValue/></SelectTrigger>
+                        <SelectContent>
+                          {PIN_STATUSES.map(st => <SelectItem key={st.key} value={st.key}>{st.icon} {st.label}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <Button onClick={addPin} disabled={!draftLngLat} className="col-span-2 flex items-center gap-2"><Plus className="w-4 h-4"/> Drop here</Button>
+                    </div>
+                    {draftLngLat && (
+                      <div className="text-xs text-muted-foreground">
+                        {reverseStatus.status === "loading" ? "Looking up address…"
+                          : reverseStatus.status === "error" ? <span className="text-red-600">Address lookup failed: {reverseStatus.error}</span>
+                          : draftPin.address || `${draftLngLat[1].toFixed(5)}, ${draftLngLat[0].toFixed(5)}`}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">Tip: Search for a place, use your location or {isCoarsePointer() ? "long-press" : "click on"} the map to choose a location, then press "Drop here".</p>
+                  </CardContent>
+                </Card>
+              )}
 
               <Separator />
 
               <div className="flex items-center justify-between">
                 <h3 className="font-semibold text-sm">Your pins</h3>
-                <Badge variant="secondary">{pins.length}</Badge>
+                <div className="flex items-center gap-2">
+                  {!readOnly && (
+                    <Button size="sm" variant={categoriesOpen ? "default" : "ghost"} className="h-7" onClick={() => setCategoriesOpen(o => !o)}>
+                      <Tags className="w-4 h-4 mr-1"/> Categories
+                    </Button>
+                  )}
+                  <Badge variant="secondary">{listPins.length === pins.length ? pins.length : `${listPins.length} / ${pins.length}`}</Badge>
+                </div>
               </div>
 
+              <PinFilterBar filter={pinFilter} onChange={setPinFilter} categories={categories} counts={facetCounts} trips={trips} tags={allTags} />
+
+              {categoriesOpen && !readOnly && (
+                <Card className="shadow-sm">
+                  <CardContent className="p-3">
+                    <CategoryManager categories={categories} counts={categoryCounts}
+                      onAdd={addCategory} onUpdate={updateCategory} onDelete={deleteCategory} />
+                  </CardContent>
+                </Card>
+              )}
+
               <ScrollArea className="h-[42vh] pr-2">
                 <div className="space-y-2">
-                  {pins.map(p => (
+                  {listPins.length === 0 && (
+                    <p className="text-sm text-muted-foreground">{pins.length ? "No pins match these filters." : "No pins yet. Click the map to add one."}</p>
+                  )}
+                  {listPins.map(p => (
                     <Card key={p.id} className={`shadow-sm ${selectedPinId===p.id ? "ring-2 ring-blue-500" : ""}`}>
                       <CardContent className="p-3">
-                        <div className="flex items-start gap-3">
-                          <div className="mt-1"><span className={`inline-block w-2.5 h-2.5 rounded-full ${categoryColor(p.category)}`}/></div>
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center justify-between">
-                              <div className="font-medium truncate">{p.title}</div>
-                              <div className="text-xs text-muted-foreground ml-3">{p.date}</div>
-                            </div>
-                            <div className="text-xs text-muted-foreground truncate">{p.category}</div>
-                            <div className="text-sm mt-1 line-clamp-2">{p.description}</div>
-                            <div className="flex items-center gap-2 mt-2">
-                              <Button size="sm" variant="outline" onClick={() => setSelectedPinId(p.id)}>Focus</Button>
-                              <Button size="sm" variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => deletePin(p.id)}>
-                                <Trash2 className="w-4 h-4 mr-1"/> Delete
-                              </Button>
+                        {editing?.pinId === p.id && editing.from === "list" ? (
+                          <PinEditor pin={p} categories={categories} onSave={(changes) => savePinEdit(p.id, changes)} onCancel={() => setEditing(null)} />
+                        ) : (
+                          <div className="flex items-start gap-3">
+                            <div className="mt-1"><PinDot color={categoryOf(categories, p.category).color} status={p.status}/></div>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center justify-between">
+                                <div className="font-medium truncate">{p.title}</div>
+                                <div className="text-xs text-muted-foreground ml-3 shrink-0">{p.attachmentIds?.length ? `📷 ${p.attachmentIds.length} · ` : ""}{p.date}</div>
+                              </div>
+                              <div className="text-xs text-muted-foreground truncate">
+                                {categoryOf(categories, p.category).icon} {categoryOf(categories, p.category).label}{pinCountry(p) ? ` · ${pinCountry(p).name}` : ""} · {statusOf(p.status).label}
+                                {p.rating ? <span className="ml-1 text-amber-500">{ratingStars(p.rating)}</span> : null}
+                              </div>
+                              <div className="text-sm mt-1 line-clamp-2">{p.description}</div>
+                              <PinTags tags={p.tags}/>
+                              <div className="flex items-center gap-2 mt-2">
+                                <Button size="sm" variant="outline" onClick={() => setSelectedPinId(p.id)}>Focus</Button>
+                                {!readOnly && (
+                                  <>
+                                    <Button size="sm" variant="ghost" onClick={() => setEditing({ pinId: p.id, from: "list" })}>
+                                      <Pencil className="w-4 h-4 mr-1"/> Edit
+                                    </Button>
+                                    <Button size="sm" variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => deletePin(p.id)}>
+                                      <Trash2 className="w-4 h-4 mr-1"/> Delete
+                                    </Button>
+                                  </>
+                                )}
+                              </div>
                             </div>
                           </div>
-                        </div>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -439,66 +2278,204 @@ export default function GlobeAtlas() {
 
           <TabsContent value="trips" className="flex-1 overflow-hidden">
             <div className="px-4 pb-4 space-y-3">
-              <Card className="shadow-sm">
-                <CardHeader className="pb-2">
-                  <CardTitle className="flex items-center gap-2 text-base"><RouteIcon className="w-4 h-4"/> Create a trip</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div className="flex gap-2">
-                    <Input placeholder="Trip name (e.g., Baltic Tour)" value={newTripName} onChange={(e)=>setNewTripName(e.target.value)} />
-                    <Button onClick={createTrip}><Save className="w-4 h-4 mr-1"/> Save</Button>
-                  </div>
-                  <p className="text-xs text-muted-foreground">Then, add/remove pins below to define the route. Select a trip to visualize the path on the map.</p>
-                </CardContent>
-              </Card>
+              {!readOnly && (
+                <Card className="shadow-sm">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center gap-2 text-base"><RouteIcon className="w-4 h-4"/> Create a trip</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex gap-2">
+                      <Input placeholder="Trip name (e.g., Baltic Tour)" value={newTripName} onChange={(e)=>setNewTripName(e.target.value)} />
+                      <Button onClick={createTrip}><Save className="w-4 h-4 mr-1"/> Save</Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Then, add/remove pins below to define the route. Select a trip to visualize the path on the map.</p>
+                  </CardContent>
+                </Card>
+              )}
 
               <Separator />
 
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-sm">Your trips</h3>
+                {!readOnly && (
+                  <Button size="sm" variant={currenciesOpen ? "default" : "ghost"} className="h-7" onClick={() => setCurrenciesOpen(o => !o)}>
+                    <Coins className="w-4 h-4 mr-1"/> Currencies
+                  </Button>
+                )}
+              </div>
+
+              {currenciesOpen && !readOnly && (
+                <Card className="shadow-sm">
+                  <CardContent className="p-3">
+                    <CurrencyManager currencies={currencies} used={currencyUsage}
+                      onAdd={addCurrency} onSetRate={setCurrencyRate} onSetHome={setHomeCurrency} onDelete={deleteCurrency} />
+                  </CardContent>
+                </Card>
+              )}
+
               <div className="space-y-2">
                 {trips.length === 0 && (
                   <p className="text-sm text-muted-foreground">No trips yet. Create one above.</p>
                 )}
 
                 {trips.map(t => (
-                  <Card key={t.id} className={`shadow-sm ${activeTripId===t.id ? "ring-2 ring-blue-500" : ""}`}>
+                  <Card key={t.id} data-trip-id={t.id} className={`shadow-sm ${activeTripId===t.id ? "ring-2 ring-blue-500" : ""}`}>
                     <CardContent className="p-3 space-y-2">
-                      <div className="flex items-center justify-between">
-                        <div className="font-medium">{t.name}</div>
-                        <div className="flex items-center gap-2">
-                          <Button size="sm" variant="outline" onClick={() => setActiveTripId(t.id)}>Show</Button>
-                          <Button size="sm" variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => deleteTrip(t.id)}><Trash2 className="w-4 h-4 mr-1"/>Delete</Button>
+                      <div className="flex items-center justify-between gap-2">
+                        <input type="color" value={t.color || DEFAULT_TRIP_COLOR} title="Line colour" disabled={readOnly}
+                          className="w-7 h-7 shrink-0 cursor-pointer disabled:cursor-default rounded border-0 bg-transparent p-0"
+                          onChange={e => setTripColor(t.id, e.target.value)} />
+                        <div className="min-w-0 flex-1 cursor-pointer" onClick={() => setActiveTripId(t.id)}>
+                          <div className="font-medium truncate">{t.name}</div>
+                          {(t.startDate || t.endDate) && (
+                            <div className="text-xs text-muted-foreground">{[t.startDate, t.endDate].filter(Boolean).map(formatDay).join(" – ")}</div>
+                          )}
+                          <TripSpending summary={tripBudgets[t.id]} />
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {t.pinIds.length > 1 && (
+                            <Button size="icon" variant="ghost" title="Play trip" onClick={() => startPlayback(t.id)}><Play className="w-4 h-4"/></Button>
+                          )}
+                          <Button size="icon" variant="ghost" title="Itinerary" aria-pressed={itineraryTripId === t.id}
+                            onClick={() => openItinerary(t.id)}><CalendarDays className="w-4 h-4"/></Button>
+                          <Button size="icon" variant="ghost" title="Budget & expenses" aria-pressed={budgetTripId === t.id}
+                            onClick={() => setBudgetTripId(id => id === t.id ? null : t.id)}><Wallet className="w-4 h-4"/></Button>
+                          {t.pinIds.length > 0 && (
+                            <Button size="icon" variant="ghost" title="Report" onClick={() => setReportTripId(t.id)}><FileText className="w-4 h-4"/></Button>
+                          )}
+                          {!readOnly && (
+                            <Button size="icon" variant="ghost" title="Share" disabled={shareState?.tripId === t.id && shareState.status === "working"}
+                              onClick={() => shareTrip(t)}><Share2 className="w-4 h-4"/></Button>
+                          )}
+                          <Button size="icon" variant="outline" title={visibleTripIds.includes(t.id) ? "Hide on map" : "Show on map"}
+                            onClick={() => toggleTripVisible(t.id)}>
+                            {visibleTripIds.includes(t.id) ? <Eye className="w-4 h-4"/> : <EyeOff className="w-4 h-4"/>}
+                          </Button>
+                          {!readOnly && (
+                            <Button size="icon" variant="ghost" className="text-red-600 hover:text-red-700" title="Delete trip" onClick={() => deleteTrip(t.id)}><Trash2 className="w-4 h-4"/></Button>
+                          )}
                         </div>
                       </div>
 
-                      <div className="text-xs text-muted-foreground">Pins in trip ({t.pinIds.length})</div>
-
-                      <div className="flex flex-wrap gap-2">
-                        {pins.map(p => {
-                          const inTrip = t.pinIds.includes(p.id);
-                          return (
-                            <Button key={p.id} size="sm" variant={inTrip?"default":"outline"} onClick={() => togglePinInTrip(t.id, p.id)}>
-                              {inTrip ? "✓" : "+"} {p.title}
-                            </Button>
-                          );
-                        })}
+                      {shareState?.tripId === t.id && shareState.status !== "working" && (
+                        <div className="rounded-xl border p-3 space-y-2 text-xs">
+                          {shareState.status === "link" && (
+                            <>
+                              <Input readOnly className="h-8 text-xs" value={shareState.url} onFocus={e => e.target.select()} />
+                              <div className="text-muted-foreground">
+                                {shareState.copied ? "Link copied. " : ""}Anyone with the link can view this trip; photos are not included.
+                              </div>
+                            </>
+                          )}
+                          {shareState.status === "file" && (
+                            <div className="text-muted-foreground">This trip is too large for a link, so it was downloaded as a file. Send the file instead; it opens with Import.</div>
+                          )}
+                          {shareState.status === "error" && <div className="text-red-600">{shareState.message}</div>}
+                          <Button size="sm" variant="ghost" className="h-7" onClick={() => setShareState(null)}>Close</Button>
+                        </div>
+                      )}
+
+                      {itineraryTripId === t.id && (
+                        <ItineraryPanel trip={t} pins={pins} readOnly={readOnly}
+                          onChange={(changes, label, groupKey) => updateTrip(t.id, changes, label, groupKey)}
+                          onExport={() => exportItinerary(t)}
+                          onClose={() => setItineraryTripId(null)} />
+                      )}
+
+                      {budgetTripId === t.id && (
+                        <TripBudgetPanel trip={t} summary={tripBudgets[t.id]} currencies={currencies} readOnly={readOnly}
+                          onSetBudget={(budget) => setTripBudget(t.id, budget)}
+                          onExport={() => exportTripExpenses(t)}
+                          onClose={() => setBudgetTripId(null)} />
+                      )}
+
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-xs text-muted-foreground">Pins in trip ({t.pinIds.length})</div>
+                        {router && (
+                          <Select value={t.travelMode || "straight"} onValueChange={(v) => setTripTravelMode(t.id, v)} disabled={readOnly}>
+                            <SelectTrigger className="h-8 w-36 text-xs"><SelectValue/></SelectTrigger>
+                            <SelectContent>
+                              {TRAVEL_MODES.map(m => (
+                                <SelectItem key={m.key} value={m.key} disabled={m.key !== "straight" && !router.supports(m.key)}>{m.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
                       </div>
 
+                      {!readOnly && (
+                        <div className="flex flex-wrap gap-2">
+                          {pins.map(p => {
+                            const inTrip = t.pinIds.includes(p.id);
+                            return (
+                              <Button key={p.id} size="sm" variant={inTrip?"default":"outline"} onClick={() => togglePinInTrip(t.id, p.id)}>
+                                {inTrip ? "✓" : "+"} {p.title}
+                              </Button>
+                            );
+                          })}
+                        </div>
+                      )}
+
+                      {!readOnly && unvisitedStops[t.id] > 0 && (
+                        <Button size="sm" variant="outline" className="h-7" onClick={() => markTripVisited(t.id)}>
+                          <CheckCheck className="w-4 h-4 mr-1"/> Mark {unvisitedStops[t.id] === 1 ? "1 stop" : `${unvisitedStops[t.id]} stops`} visited
+                        </Button>
+                      )}
+
                       {t.pinIds.length > 1 && (
                         <div className="space-y-2">
                           <Separator/>
-                          <div className="text-xs text-muted-foreground">Reorder (first → last)</div>
-                          <div className="flex flex-col gap-1">
-                            {t.pinIds.map(pid => {
+                          <div className="flex items-center justify-between">
+                            <div className="text-xs text-muted-foreground">{readOnly ? "Stops (first → last)" : "Reorder (first → last)"}</div>
+                            {!readOnly && t.pinIds.length > 2 && optimisingTripId !== t.id && (
+                              <Button size="sm" variant="ghost" className="h-7" onClick={() => setOptimisingTripId(t.id)}><Wand2 className="w-4 h-4 mr-1"/>Optimise order</Button>
+                            )}
+                          </div>
+                          {optimisingTripId === t.id && (
+                            <OptimiseOrderPanel trip={t} pins={pins}
+                              onApply={(pinIds) => applyOptimisedOrder(t.id, pinIds)}
+                              onCancel={() => setOptimisingTripId(null)} />
+                          )}
+                          <TripLegSummary summary={tripSummaries[t.id]} onRetry={retryRoute} />
+                          <div className="flex flex-col gap-1" data-stop-list>
+                            {t.pinIds.filter(pid => pins.some(pp => pp.id === pid)).map((pid, i, stops) => {
                               const p = pins.find(pp => pp.id === pid);
-                              if (!p) return null;
+                              const summary = tripSummaries[t.id];
+                              const leg = summary.legs[i];
+                              const routedLeg = summary.route?.result?.legs[i];
+                              const drag = stopDrag?.tripId === t.id ? stopDrag : null;
+                              const from = drag ? stops.indexOf(drag.pinId) : -1;
+                              // Drop marker above this row (or below the last), unless the drop would change nothing
+                              const markAt = (slot) => drag && drag.slot === slot && slot !== from && slot !== from + 1;
                               return (
-                                <div key={pid} className="flex items-center justify-between bg-muted/50 rounded-xl px-3 py-2">
-                                  <div className="text-sm truncate">{p.title}</div>
-                                  <div className="flex gap-1">
-                                    <Button size="icon" variant="outline" onClick={() => reorderTripPins(t.id, pid, "up")}>↑</Button>
-                                    <Button size="icon" variant="outline" onClick={() => reorderTripPins(t.id, pid, "down")}>↓</Button>
+                                <React.Fragment key={pid}>
+                                  {markAt(i) && <div className="h-0.5 rounded-full bg-blue-500"/>}
+                                  <div data-stop-row={pid} className={`flex items-center justify-between bg-muted/50 rounded-xl px-3 py-2 ${drag?.pinId === pid ? "opacity-50" : ""}`}>
+                                    <div className="flex items-center gap-2 min-w-0">
+                                      {!readOnly && (
+                                        <button type="button" className="-ml-2 p-1.5 cursor-grab touch-none text-muted-foreground shrink-0" title="Drag to reorder"
+                                          onPointerDown={(e) => beginStopDrag(e, t.id, pid)}>
+                                          <GripVertical className="w-4 h-4"/>
+                                        </button>
+                                      )}
+                                      <span className="w-5 h-5 rounded-full text-[11px] font-medium text-white grid place-items-center shrink-0" style={{ background: t.color || DEFAULT_TRIP_COLOR }}>{i + 1}</span>
+                                      <div className="text-sm truncate">{p.title}</div>
+                                    </div>
+                                    {!readOnly && (
+                                      <div className="hidden lg:flex gap-1">
+                                        <Button size="icon" variant="outline" onClick={() => reorderTripPins(t.id, pid, "up")}>↑</Button>
+                                        <Button size="icon" variant="outline" onClick={() => reorderTripPins(t.id, pid, "down")}>↓</Button>
+                                      </div>
+                                    )}
                                   </div>
-                                </div>
+                                  {i === stops.length - 1 && markAt(stops.length) && <div className="h-0.5 rounded-full bg-blue-500"/>}
+                                  {i < stops.length - 1 && leg && (
+                                    <div className="text-[11px] text-muted-foreground px-3">
+                                      ↓ {formatDistance(leg.distance)}
+                                      {routedLeg && ` · ${formatDistance(routedLeg.distance)} ${travelPhrase(summary.mode)} · ${formatDuration(routedLeg.duration)}`}
+                                    </div>
+                                  )}
+                                </React.Fragment>
                               );
                             })}
                           </div>
@@ -510,64 +2487,3409 @@ export default function GlobeAtlas() {
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="stats" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[70vh] px-4 pb-4">
+              {stats && <StatsPanel stats={stats} categories={categories} showHeatmap={showHeatmap} onShowHeatmap={setShowHeatmap}
+                onFocusPins={(a, b) => mapRef.current?.fitBounds(new mapEngine.gl.LngLatBounds(a.lngLat, a.lngLat).extend(b.lngLat), { padding: 80, duration: 800 })}
+                onFilterCountry={toggleCountryFilter} />}
+            </ScrollArea>
+          </TabsContent>
         </Tabs>
       </aside>
 
       {/* Map area */}
-      <main className="relative">
+      <main className="relative mb-[7.5rem] lg:mb-0"
+        onDragOver={e => { if (!readOnly && e.dataTransfer.types.includes("Files")) { e.preventDefault(); setDropActive(true); } }}
+        onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget)) setDropActive(false); }}
+        onDrop={e => { e.preventDefault(); setDropActive(false); dropPhotos(Array.from(e.dataTransfer.files)); }}>
         <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.4 }}
           className="absolute top-3 left-3 right-3 lg:left-0 lg:right-0 z-10 flex lg:justify-center">
           <Card className="px-4 py-2 bg-white/90 backdrop-blur shadow-xl border-0">
             <div className="flex items-center gap-3">
-              <span className="font-semibold">Click the map to set a location</span>
-              <Badge variant="secondary" className="hidden md:inline-flex">Local-only storage</Badge>
+              <span className="font-semibold">{readOnly ? "Viewing a shared trip" : isCoarsePointer() ? "Long-press the map to drop a pin" : "Click the map to set a location"}</span>
+              <Badge variant="secondary" className="hidden md:inline-flex">{readOnly ? "Shared link (not saved)" : storage.label}</Badge>
+              {syncStatus !== "off" && (
+                <Badge variant="outline" className={`hidden md:inline-flex ${syncStatus === "offline" ? "text-amber-700 border-amber-300" : ""}`}>
+                  {syncStatus === "online" ? "Live sync on" : syncStatus === "connecting" ? "Connecting to sync…" : "Sync offline, retrying"}
+                </Badge>
+              )}
               <Badge className="hidden md:inline-flex">Helsinki demo data</Badge>
             </div>
           </Card>
         </motion.div>
 
+        {(loadState === "loading" || storageError) && (
+          <div className="absolute top-16 left-3 right-3 lg:left-0 lg:right-0 z-10 flex lg:justify-center">
+            {loadState === "loading" ? (
+              <Card className="px-4 py-2 bg-white/90 backdrop-blur shadow-xl border-0 text-sm">{readOnly ? "Opening shared trip…" : "Loading your atlas…"}</Card>
+            ) : (
+              <Card className="px-4 py-3 bg-red-50 border-red-200 shadow-xl max-w-md space-y-2">
+                <div className="text-sm font-semibold text-red-700">
+                  {storageError.operation === "load" ? "Could not load your atlas"
+                    : storageError.operation === "share" ? "Could not open this shared trip"
+                    : "Your latest changes are not saved"}
+                </div>
+                <div className="text-xs text-red-700">{storageError.message}</div>
+                <div className="flex gap-2">
+                  {storageError.operation === "share" ? (
+                    <Button size="sm" variant="outline" onClick={leaveViewer}>Open my atlas</Button>
+                  ) : storageError.operation === "load" ? (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => setLoadAttempt(n => n + 1)}>Retry</Button>
+                      <Button size="sm" variant="ghost" className="text-red-600 hover:text-red-700" onClick={startFromSeed}>Start over (overwrites stored data)</Button>
+                    </>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => setSaveAttempt(n => n + 1)}>Retry save</Button>
+                  )}
+                </div>
+              </Card>
+            )}
+          </div>
+        )}
+
         <div ref={mapContainerRef} className="w-full h-full"/>
 
+        {(mapEngine.unavailable || mapError) && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center p-6 pointer-events-none">
+            <Card className="max-w-md px-5 py-4 bg-white/95 shadow-xl border-red-200 space-y-2 pointer-events-auto">
+              <div className="font-semibold text-red-700">{mapEngine.unavailable ? "The map is not configured" : "The map could not be loaded"}</div>
+              <div className="text-sm text-red-700">{mapEngine.unavailable || mapError}</div>
+              <div className="text-xs text-muted-foreground">
+                {mapEngine.unavailable ? "Your pins and trips are still available in the sidebar." : "Try another base style, or check the style and tile URLs in MAP_CONFIG."}
+              </div>
+            </Card>
+          </div>
+        )}
+
+        {/* Pin my location, for small screens where the add-pin form sits in the bottom sheet */}
+        {!readOnly && (
+          <Button size="icon" className="lg:hidden absolute right-3 top-36 z-10 rounded-full shadow-xl" onClick={pinMyLocation}
+            disabled={locateStatus.status === "locating"} title="Pin my current location">
+            <LocateFixed className="w-4 h-4"/>
+          </Button>
+        )}
+
+        {/* Base style switcher */}
+        {!mapEngine.unavailable && Object.keys(mapEngine.styles).length > 1 && (
+          <Card className="absolute right-3 top-24 z-10 p-1 bg-white/90 backdrop-blur shadow-xl border-0">
+            <Select value={baseStyle} onValueChange={setBaseStyle}>
+              <SelectTrigger className="h-8 w-36 text-xs border-0 bg-transparent" title={`Base map (${mapEngine.label})`}>
+                <Layers className="w-3.5 h-3.5 mr-1 shrink-0"/>
+                <SelectValue/>
+              </SelectTrigger>
+              <SelectContent>
+                {BASE_STYLES.filter(b => mapEngine.styles[b.key]).map(b => (
+                  <SelectItem key={b.key} value={b.key}>{b.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Card>
+        )}
+
+        {/* Category legend */}
+        {categories.length > 0 && (
+          <Card className="absolute left-3 bottom-10 z-10 px-3 py-2 bg-white/90 backdrop-blur shadow-xl border-0 hidden md:block">
+            <div className="space-y-1">
+              {categories.filter(c => categoryCounts[c.key]).map(c => (
+                <div key={c.key} className="flex items-center gap-2 text-xs">
+                  <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: c.color }}/>
+                  <span>{c.icon} {c.label}</span>
+                  <span className="text-muted-foreground ml-auto pl-2">{categoryCounts[c.key]}</span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {playbackNow && (
+          <>
+            {/* Current stop, with its date when it has one */}
+            <motion.div key={playbackNow.stopIndex} initial={{ opacity: 0, y: -8 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}
+              className="absolute top-16 left-0 right-0 z-10 flex justify-center pointer-events-none">
+              <Card className="px-4 py-2 bg-white/90 backdrop-blur shadow-xl border-0 text-center">
+                <div className="font-semibold">{playbackNow.stop.title}</div>
+                {playbackNow.stop.date && (
+                  <div className="text-xs text-muted-foreground">{new Date(`${playbackNow.stop.date}T00:00`).toLocaleDateString(undefined, { dateStyle: "long" })}</div>
+                )}
+              </Card>
+            </motion.div>
+            <div className="absolute bottom-10 left-3 right-3 md:left-1/2 md:right-auto md:-translate-x-1/2 md:w-[28rem] z-20">
+              <PlaybackControls trip={trips.find(t => t.id === playback.tripId)} state={playback} timeline={playbackTimeline} frame={playbackNow}
+                timeRef={playbackTimeRef} onChange={changePlayback} onClose={() => setPlayback(null)} />
+            </div>
+          </>
+        )}
+
+        {dropActive && (
+          <div className="absolute inset-3 z-20 rounded-2xl border-4 border-dashed border-blue-500 bg-blue-500/10 flex items-center justify-center pointer-events-none">
+            <Card className="px-4 py-2 shadow-xl border-0 font-semibold">Drop geotagged photos to create pins</Card>
+          </div>
+        )}
+
+        {/* Photo drafts awaiting confirmation */}
+        {photoImport && (
+          <Card className="absolute left-3 top-28 z-10 w-80 shadow-2xl">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base"><ImageIcon className="w-4 h-4"/> Pins from photos</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {photoImport.drafts.length === 0 && <p className="text-sm text-muted-foreground">None of these photos has a GPS location.</p>}
+              <ScrollArea className="max-h-64 pr-2">
+                <div className="space-y-2">
+                  {photoImport.drafts.map(d => (
+                    <div key={d.key} className="flex items-start gap-2">
+                      <Checkbox className="mt-2" checked={d.include} onCheckedChange={v => updatePhotoDraft(d.key, { include: Boolean(v) })} />
+                      <div className="flex-1 space-y-1">
+                        <Input className="h-8" value={d.title} onChange={e => updatePhotoDraft(d.key, { title: e.target.value })} />
+                        <div className="flex items-center gap-2">
+                          <Input type="date" className="h-8 text-xs" value={d.date || ""} onChange={e => updatePhotoDraft(d.key, { date: e.target.value })} />
+                          <span className="text-xs text-muted-foreground shrink-0">{d.files.length} photo{d.files.length === 1 ? "" : "s"}</span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+              {photoImport.skipped > 0 && <p className="text-xs text-muted-foreground">{photoImport.skipped} photo(s) without GPS data were skipped.</p>}
+              {photoImport.error && <p className="text-xs text-red-600">{photoImport.error}</p>}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={confirmPhotoDrafts} disabled={!photoImport.drafts.some(d => d.include)}>
+                  Create {photoImport.drafts.filter(d => d.include).length} pins
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setPhotoImport(null)}>Discard</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Floating selected pin card */}
         {selectedPin && (
           <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} transition={{ duration: 0.25 }}
             className="absolute right-3 bottom-3 z-10 max-w-md">
             <Card className="shadow-2xl">
-              <CardHeader className="pb-2">
-                <CardTitle className="text-base">{selectedPin.title}</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <div className="text-xs text-muted-foreground">{selectedPin.category} • {selectedPin.date}</div>
-                <div className="text-sm">{selectedPin.description}</div>
-                <div className="flex gap-2 pt-2">
-                  <Button size="sm" variant="outline" onClick={() => flyTo(selectedPin.lngLat, mapRef)}>Fly to</Button>
-                  <Button size="sm" variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => deletePin(selectedPin.id)}><Trash2 className="w-4 h-4 mr-1"/>Delete</Button>
-                </div>
-              </CardContent>
+              {editing?.pinId === selectedPin.id && editing.from === "card" ? (
+                <CardContent className="pt-4">
+                  <PinEditor pin={selectedPin} categories={categories} onSave={(changes) => savePinEdit(selectedPin.id, changes)} onCancel={() => setEditing(null)} />
+                </CardContent>
+              ) : (
+                <>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{selectedPin.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <div className="text-xs text-muted-foreground">
+                      {categoryOf(categories, selectedPin.category).icon} {categoryOf(categories, selectedPin.category).label} • {selectedPin.date}{pinCountry(selectedPin) ? ` • ${pinCountry(selectedPin).name}` : ""}
+                    </div>
+                    {readOnly ? (
+                      <div className="text-xs">
+                        {statusOf(selectedPin.status).icon} {statusOf(selectedPin.status).label}
+                        {selectedPin.rating ? <span className="ml-1 text-amber-500">{ratingStars(selectedPin.rating)}</span> : null}
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <div className="flex rounded-md border overflow-hidden">
+                          {PIN_STATUSES.map(st => (
+                            <button key={st.key} type="button" onClick={() => setPinStatus(selectedPin.id, st.key)}
+                              className={`px-2 py-0.5 text-xs ${statusOf(selectedPin.status).key === st.key ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}>
+                              {st.label}
+                            </button>
+                          ))}
+                        </div>
+                        <RatingInput value={selectedPin.rating || 0} onChange={(rating) => ratePin(selectedPin.id, rating)} />
+                      </div>
+                    )}
+                    {selectedPin.address && <div className="text-xs text-muted-foreground">{selectedPin.address}</div>}
+                    <div className="text-sm">{selectedPin.description}</div>
+                    <PinTags tags={selectedPin.tags}/>
+                    {selectedPin.links?.some(l => isWebUrl(l.url)) && (
+                      <div className="text-xs space-y-0.5">
+                        {selectedPin.links.filter(l => isWebUrl(l.url)).map(l => (
+                          <a key={l.url} href={l.url} target="_blank" rel="noopener noreferrer" className="block truncate text-blue-600 underline">{l.label || l.url}</a>
+                        ))}
+                      </div>
+                    )}
+                    <ExpenseList key={selectedPin.id} expenses={selectedPin.expenses || []} currencies={currencies} readOnly={readOnly}
+                      onAdd={(expense) => addExpense(selectedPin.id, expense)} onRemove={(id) => removeExpense(selectedPin.id, id)} />
+                    <AttachmentGallery ids={selectedPin.attachmentIds || []} readOnly={readOnly} onRemove={(id) => removeAttachment(selectedPin.id, id)} />
+                    {attachmentError && <p className="text-xs text-red-600">{attachmentError}</p>}
+                    <div className="flex gap-2 pt-2">
+                      <Button size="sm" variant="outline" onClick={() => flyTo(selectedPin.lngLat, mapRef)}>Fly to</Button>
+                      {!readOnly && (
+                        <>
+                          <Button size="sm" variant="ghost" onClick={() => setEditing({ pinId: selectedPin.id, from: "card" })}><Pencil className="w-4 h-4 mr-1"/>Edit</Button>
+                          <Button size="sm" variant="ghost" asChild>
+                            <label className="cursor-pointer"><Paperclip className="w-4 h-4 mr-1"/>Attach
+                              <input type="file" multiple accept="image/*,application/pdf" className="hidden"
+                                onChange={e => { attachFiles(selectedPin.id, Array.from(e.target.files)); e.target.value = ""; }} />
+                            </label>
+                          </Button>
+                          <Button size="sm" variant="ghost" className="text-red-600 hover:text-red-700" onClick={() => deletePin(selectedPin.id)}><Trash2 className="w-4 h-4 mr-1"/>Delete</Button>
+                        </>
+                      )}
+                    </div>
+                    {!readOnly && <p className="text-xs text-muted-foreground">Tip: drag the pin on the map to move it, or drop geotagged photos on the map.</p>}
+                  </CardContent>
+                </>
+              )}
             </Card>
           </motion.div>
         )}
       </main>
+
+      {reportTrip && (
+        <TripReport trip={reportTrip} pins={pins} categories={categories} style={mapEngine.styles[baseStyle]}
+          route={tripSummaries[reportTrip.id].route?.status === "ok" ? tripSummaries[reportTrip.id].route.result : null}
+          onClose={() => setReportTripId(null)} />
+      )}
     </div>
   );
 }
 
-// ==== Utilities ====
-function flyTo(lngLat, mapRef) {
-  const map = mapRef.current;
-  if (!map) return;
-  map.flyTo({ center: lngLat, zoom: 13, speed: 0.8, curve: 1.4, essential: true });
+// ==== Map layers ====
+// Every atlas source and layer, bottom to top; run on each (re)loaded style
+function addAtlasLayers(map, categories) {
+  addCountryLayers(map);
+  addHeatmapLayer(map);
+  addTripLayers(map);
+  addPinLayers(map, categories);
+  addTripStopLayers(map);
+}
+
+const PIN_SOURCE = "globeatlas-pins";
+const PIN_DRAG_SOURCE = "globeatlas-pin-drag";
+const PIN_LAYERS = {
+  clusters: "globeatlas-pin-clusters",
+  clusterCount: "globeatlas-pin-cluster-count",
+  selected: "globeatlas-pin-selected",
+  points: "globeatlas-pin-points",
+  drag: "globeatlas-pin-drag"
+};
+
+/**
+ * Brings a GeoJSON source (promoteId "id") to `features`. Only added, replaced and removed
+ * features are sent when `updateGeoJSON` can apply the diff; `sent` tracks what the source
+ * holds and starts over when the source was recreated by a style switch.
+ */
+export function updateFeatureSource(source, features, sent, updateGeoJSON = mapEngine.updateGeoJSON) {
+  const byId = new Map(features.map(f => [f.properties.id, f]));
+  const previous = sent.source === source ? sent.byId : null;
+  const add = [];
+  const update = [];
+  if (previous) features.forEach(f => {
+    const old = previous.get(f.properties.id);
+    if (!old) add.push(f);
+    else if (old !== f) update.push(f);
+  });
+  const remove = previous ? [...previous.keys()].filter(id => !byId.has(id)) : [];
+  const changes = add.length + update.length + remove.length;
+  if (!previous || changes) {
+    // A diff touching most features is no cheaper than replacing them all
+    const patched = previous && changes < features.length && updateGeoJSON(source, { add, update, remove });
+    if (!patched) source.setData({ type: "FeatureCollection", features });
+  }
+  sent.source = source;
+  sent.byId = byId;
+}
+
+export function pinToFeature(p) {
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates: p.lngLat },
+    properties: { id: p.id, title: p.title, category: p.category, status: statusOf(p.status).key }
+  };
+}
+
+// Data-driven colour: one `match` arm per registry entry
+function pinColorExpression(categories) {
+  if (!categories.length) return UNKNOWN_CATEGORY.color; // `match` needs at least one arm
+  return ["match", ["get", "category"], ...categories.flatMap(c => [c.key, c.color]), UNKNOWN_CATEGORY.color];
 }
 
-function categoryColor(cat) {
+// Wishlist pins are hollow rings in the category colour, planned ones a faded dot
+function pinPointPaint(categories) {
+  const color = pinColorExpression(categories);
+  const wishlist = ["==", ["get", "status"], "wishlist"];
   return {
-    landmark: "bg-blue-500",
-    food: "bg-amber-500",
-    museum: "bg-purple-500",
-    nature: "bg-green-600",
-    stay: "bg-rose-500",
-    other: "bg-gray-500",
-  }[cat] || "bg-gray-500";
+    "circle-radius": 7,
+    "circle-color": ["case", wishlist, "#ffffff", color],
+    "circle-opacity": ["case", ["==", ["get", "status"], "planned"], 0.55, 1],
+    "circle-stroke-width": 3,
+    "circle-stroke-color": ["case", wishlist, color, "#ffffff"]
+  };
+}
+
+function addPinLayers(map, categories) {
+  const empty = { type: "FeatureCollection", features: [] };
+  map.addSource(PIN_SOURCE, { type: "geojson", data: empty, cluster: true, clusterRadius: 48, clusterMaxZoom: 14, promoteId: "id", ...mapEngine.updatableSource });
+  map.addSource(PIN_DRAG_SOURCE, { type: "geojson", data: empty });
+
+  map.addLayer({
+    id: PIN_LAYERS.clusters,
+    type: "circle",
+    source: PIN_SOURCE,
+    filter: ["has", "point_count"],
+    paint: {
+      "circle-color": ["step", ["get", "point_count"], "#60a5fa", 25, "#3b82f6", 250, "#1d4ed8"],
+      "circle-radius": ["step", ["get", "point_count"], 16, 25, 22, 250, 30],
+      "circle-stroke-width": 3,
+      "circle-stroke-color": "rgba(255, 255, 255, 0.8)"
+    }
+  });
+  map.addLayer({
+    id: PIN_LAYERS.clusterCount,
+    type: "symbol",
+    source: PIN_SOURCE,
+    filter: ["has", "point_count"],
+    layout: { "text-field": ["get", "point_count_abbreviated"], "text-size": 12, "text-font": mapEngine.labelFont },
+    paint: { "text-color": "#ffffff" }
+  });
+  map.addLayer({
+    id: PIN_LAYERS.selected,
+    type: "circle",
+    source: PIN_SOURCE,
+    filter: ["all", ["!", ["has", "point_count"]], ["==", ["get", "id"], ""]],
+    paint: { "circle-radius": 13, "circle-color": "rgba(59, 130, 246, 0.25)", "circle-stroke-width": 2, "circle-stroke-color": "#3b82f6" }
+  });
+
+  const pointPaint = pinPointPaint(categories);
+  map.addLayer({ id: PIN_LAYERS.points, type: "circle", source: PIN_SOURCE, filter: ["!", ["has", "point_count"]], paint: pointPaint });
+  map.addLayer({ id: PIN_LAYERS.drag, type: "circle", source: PIN_DRAG_SOURCE, paint: { ...pointPaint, "circle-opacity": 0.85 } });
+}
+
+const COUNTRY_SOURCE = "globeatlas-countries";
+const COUNTRY_LAYERS = { fill: "globeatlas-country-fill", outline: "globeatlas-country-outline" };
+const COUNTRY_MAX_ZOOM = 6; // the choropleth is a zoomed-out view; closer in, clicks place pins again
+
+// Visited-country shading sits beneath the basemap labels; the filter is set from the pins
+function addCountryLayers(map) {
+  map.addSource(COUNTRY_SOURCE, { type: "geojson", data: countriesGeoJSON(), promoteId: "id" });
+  const beforeId = map.getStyle().layers.find(l => l.type === "symbol")?.id;
+  const none = ["in", ["get", "id"], ["literal", []]];
+  map.addLayer({
+    id: COUNTRY_LAYERS.fill,
+    type: "fill",
+    source: COUNTRY_SOURCE,
+    maxzoom: COUNTRY_MAX_ZOOM,
+    filter: none,
+    paint: {
+      "fill-color": ["interpolate", ["linear"], ["coalesce", ["feature-state", "pins"], 0], 1, "#bfdbfe", 10, "#60a5fa", 50, "#1d4ed8"],
+      "fill-opacity": ["interpolate", ["linear"], ["zoom"], 0, 0.6, COUNTRY_MAX_ZOOM, 0.2]
+    }
+  }, beforeId);
+  map.addLayer({
+    id: COUNTRY_LAYERS.outline,
+    type: "line",
+    source: COUNTRY_SOURCE,
+    maxzoom: COUNTRY_MAX_ZOOM,
+    filter: none,
+    paint: {
+      "line-color": "#1d4ed8",
+      "line-width": ["case", ["boolean", ["feature-state", "selected"], false], 2.5, 0.6]
+    }
+  }, beforeId);
+}
+
+const HEATMAP_SOURCE = "globeatlas-pin-heat";
+const HEATMAP_LAYER = "globeatlas-pin-heat";
+
+// Pin density; unclustered copy of the pin features, only filled while the heatmap is shown
+function addHeatmapLayer(map) {
+  map.addSource(HEATMAP_SOURCE, { type: "geojson", data: { type: "FeatureCollection", features: [] }, promoteId: "id", ...mapEngine.updatableSource });
+  map.addLayer({
+    id: HEATMAP_LAYER,
+    type: "heatmap",
+    source: HEATMAP_SOURCE,
+    layout: { visibility: "none" },
+    paint: {
+      "heatmap-intensity": ["interpolate", ["linear"], ["zoom"], 0, 1, 14, 3],
+      "heatmap-radius": ["interpolate", ["linear"], ["zoom"], 0, 4, 14, 30],
+      "heatmap-opacity": 0.75,
+      "heatmap-color": [
+        "interpolate", ["linear"], ["heatmap-density"],
+        0, "rgba(59, 130, 246, 0)", 0.2, "#93c5fd", 0.4, "#3b82f6", 0.6, "#a855f7", 0.8, "#f97316", 1, "#dc2626"
+      ]
+    }
+  });
+}
+
+const TRIP_SOURCE = "globeatlas-trip";
+const TRIP_STOP_SOURCE = "globeatlas-trip-stops";
+const TRIP_ARROW_IMAGE = "globeatlas-trip-arrow";
+const TRIP_LINE_OPACITY = 0.9;
+const PLAYBACK_SOURCE = "globeatlas-playback";
+const PLAYBACK_LAYER = "globeatlas-playback-line";
+const TRIP_LAYERS = {
+  line: "globeatlas-trip-line",
+  arrows: "globeatlas-trip-arrows",
+  stops: "globeatlas-trip-stops",
+  stopNumbers: "globeatlas-trip-stop-numbers"
+};
+
+// Lines and direction arrows go underneath the pins
+function addTripLayers(map) {
+  const empty = { type: "FeatureCollection", features: [] };
+  map.addSource(TRIP_SOURCE, { type: "geojson", data: empty });
+  map.addSource(TRIP_STOP_SOURCE, { type: "geojson", data: empty });
+  map.addImage(TRIP_ARROW_IMAGE, arrowImage(24), { sdf: true }); // sdf so icon-color can tint it per trip
+
+  map.addLayer({
+    id: TRIP_LAYERS.line,
+    type: "line",
+    source: TRIP_SOURCE,
+    layout: { "line-join": "round", "line-cap": "round" },
+    paint: {
+      "line-width": ["case", ["get", "selected"], 6, 4],
+      "line-color": ["coalesce", ["get", "color"], DEFAULT_TRIP_COLOR],
+      "line-opacity": TRIP_LINE_OPACITY
+    }
+  });
+  map.addLayer({
+    id: TRIP_LAYERS.arrows,
+    type: "symbol",
+    source: TRIP_SOURCE,
+    layout: {
+      "symbol-placement": "line",
+      "symbol-spacing": 90,
+      "icon-image": TRIP_ARROW_IMAGE,
+      "icon-size": 0.7,
+      "icon-allow-overlap": true,
+      "icon-rotation-alignment": "map"
+    },
+    paint: { "icon-color": ["coalesce", ["get", "color"], DEFAULT_TRIP_COLOR], "icon-halo-color": "#ffffff", "icon-halo-width": 1.5 }
+  });
+
+  // The part of a trip drawn so far during playback
+  map.addSource(PLAYBACK_SOURCE, { type: "geojson", data: empty });
+  map.addLayer({
+    id: PLAYBACK_LAYER,
+    type: "line",
+    source: PLAYBACK_SOURCE,
+    layout: { "line-join": "round", "line-cap": "round" },
+    paint: { "line-width": 6, "line-color": ["coalesce", ["get", "color"], DEFAULT_TRIP_COLOR] }
+  });
+}
+
+// Numbered stop badges sit above the pins, nudged to the top-right so the pin stays visible
+function addTripStopLayers(map) {
+  const offset = [11, -11];
+  map.addLayer({
+    id: TRIP_LAYERS.stops,
+    type: "circle",
+    source: TRIP_STOP_SOURCE,
+    paint: {
+      "circle-radius": 8,
+      "circle-color": ["get", "color"],
+      "circle-stroke-width": 1.5,
+      "circle-stroke-color": "#ffffff",
+      "circle-translate": offset
+    }
+  });
+  map.addLayer({
+    id: TRIP_LAYERS.stopNumbers,
+    type: "symbol",
+    source: TRIP_STOP_SOURCE,
+    layout: {
+      "text-field": ["to-string", ["get", "number"]],
+      "text-size": 10,
+      "text-font": mapEngine.labelFont,
+      "text-allow-overlap": true
+    },
+    paint: { "text-color": "#ffffff", "text-translate": offset }
+  });
+}
+
+// Right-pointing chevron; symbol-placement "line" rotates it along the direction of travel
+function arrowImage(size) {
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  ctx.beginPath();
+  ctx.moveTo(size * 0.25, size * 0.2);
+  ctx.lineTo(size * 0.8, size * 0.5);
+  ctx.lineTo(size * 0.25, size * 0.8);
+  ctx.lineTo(size * 0.4, size * 0.5);
+  ctx.closePath();
+  ctx.fill();
+  return ctx.getImageData(0, 0, size, size);
+}
+
+// Only one pin popup is open at a time; popupRef tracks it so edits can refresh or close it
+function openPinPopup(map, popupRef, pin, categories) {
+  popupRef.current?.popup.remove();
+  const popup = new mapEngine.gl.Popup({ offset: 12 })
+    .setLngLat(pin.lngLat)
+    .setDOMContent(pinPopupNode(pin, categories))
+    .addTo(map);
+  popupRef.current = { pinId: pin.id, popup };
+}
+
+function pinPopupNode(p, categories) {
+  const category = categoryOf(categories, p.category);
+  const status = statusOf(p.status);
+  const links = (p.links || []).filter(l => isWebUrl(l.url));
+  const node = document.createElement("div");
+  node.className = "min-w-[220px]";
+  node.innerHTML = `
+    <div class="font-semibold text-sm mb-1">${escapeHtml(p.title)}</div>
+    <div class="text-xs text-muted-foreground mb-1">${escapeHtml(category.icon)} ${escapeHtml(category.label)} • ${escapeHtml(p.date)}${pinCountry(p) ? ` • ${escapeHtml(pinCountry(p).name)}` : ""}</div>
+    <div class="text-xs mb-1">${escapeHtml(status.icon)} ${escapeHtml(status.label)}${p.rating ? ` <span class="text-amber-500" title="${p.rating} of ${MAX_RATING}">${ratingStars(p.rating)}</span>` : ""}</div>
+    ${p.address ? `<div class="text-xs text-muted-foreground mb-1">${escapeHtml(p.address)}</div>` : ""}
+    <div class="text-xs">${escapeHtml(p.description)}</div>
+    ${p.tags?.length ? `<div class="flex flex-wrap gap-1 mt-1">${p.tags.map(t => `<span class="text-[10px] rounded-full bg-muted px-1.5">#${escapeHtml(t)}</span>`).join("")}</div>` : ""}
+    ${links.length ? `<div class="text-xs mt-1 space-y-0.5">${links.map(l => `<a class="block truncate text-blue-600 underline" href="${escapeHtml(l.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(l.label || l.url)}</a>`).join("")}</div>` : ""}
+  `;
+  if (p.attachmentIds?.length) {
+    const gallery = document.createElement("div");
+    gallery.className = "flex gap-1 mt-2 overflow-x-auto max-w-[260px]";
+    // Slots are created in order so thumbnails keep their order however fast each one loads
+    p.attachmentIds.forEach(id => {
+      const img = document.createElement("img");
+      img.className = "w-16 h-16 object-cover rounded bg-muted shrink-0";
+      gallery.appendChild(img);
+      loadAttachmentView(id).then(view => {
+        if (view?.thumbUrl) { img.src = view.thumbUrl; img.alt = view.name; } else img.remove();
+      });
+    });
+    node.appendChild(gallery);
+  }
+  return node;
+}
+
+// ==== Components ====
+/** Inline form for editing an existing pin. Calls onSave with the full set of editable fields. */
+function PinEditor({ pin, categories, onSave, onCancel }) {
+  const [draft, setDraft] = useState({
+    title: pin.title,
+    description: pin.description,
+    category: pin.category,
+    date: pin.date,
+    address: pin.address || "",
+    status: statusOf(pin.status).key,
+    rating: pin.rating || 0,
+    tags: (pin.tags || []).join(", "),
+    links: formatLinks(pin.links),
+    lng: String(pin.lngLat[0]),
+    lat: String(pin.lngLat[1])
+  });
+  const lng = Number(draft.lng);
+  const lat = Number(draft.lat);
+  const validCoords = draft.lng.trim() !== "" && draft.lat.trim() !== "" &&
+    Number.isFinite(lng) && Number.isFinite(lat) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+
+  const save = () => {
+    if (!validCoords) return;
+    const tags = normalizeTags(draft.tags.split(","));
+    const links = parseLinks(draft.links);
+    onSave({
+      title: draft.title.trim() || "Untitled place",
+      description: draft.description,
+      category: draft.category,
+      date: draft.date || pin.date,
+      address: draft.address.trim() || undefined,
+      status: draft.status,
+      rating: draft.rating || undefined,
+      tags: tags.length ? tags : undefined,
+      links: links.length ? links : undefined,
+      lngLat: [lng, lat]
+    });
+  };
+  const droppedLinks = draft.links.split("\n").filter(l => l.trim()).length - parseLinks(draft.links).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Input placeholder="Title" value={draft.title} onChange={e => setDraft(s => ({...s, title: e.target.value}))} />
+        <Input type="date" value={draft.date} onChange={e => setDraft(s => ({...s, date: e.target.value}))} />
+      </div>
+      <Textarea placeholder="Description" value={draft.description} onChange={e => setDraft(s => ({...s, description: e.target.value}))} />
+      <Input placeholder="Address" value={draft.address} onChange={e => setDraft(s => ({...s, address: e.target.value}))} />
+      <Select value={draft.category} onValueChange={(v) => setDraft(s => ({...s, category: v}))}>
+        <SelectTrigger><SelectValue placeholder="Category"/></SelectTrigger>
+        <SelectContent>
+          {categories.map(c => (
+            <SelectItem key={c.key} value={c.key}>{c.icon} {c.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-2">
+        <Select value={draft.status} onValueChange={(v) => setDraft(s => ({...s, status: v}))}>
+          <SelectTrigger className="w-36"><SelectValue/></SelectTrigger>
+          <SelectContent>
+            {PIN_STATUSES.map(st => <SelectItem key={st.key} value={st.key}>{st.icon} {st.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <RatingInput value={draft.rating} onChange={(rating) => setDraft(s => ({...s, rating}))} />
+      </div>
+      <Input placeholder="Tags, comma separated" value={draft.tags} onChange={e => setDraft(s => ({...s, tags: e.target.value}))} />
+      <Textarea rows={2} placeholder={"Links, one per line: Label https://…"} value={draft.links} onChange={e => setDraft(s => ({...s, links: e.target.value}))} />
+      {droppedLinks > 0 && <p className="text-xs text-amber-600">{droppedLinks} line{droppedLinks === 1 ? "" : "s"} without an http(s) link will be dropped.</p>}
+      <div className="grid grid-cols-2 gap-2">
+        <Input type="number" step="any" placeholder="Longitude" value={draft.lng} onChange={e => setDraft(s => ({...s, lng: e.target.value}))} />
+        <Input type="number" step="any" placeholder="Latitude" value={draft.lat} onChange={e => setDraft(s => ({...s, lat: e.target.value}))} />
+      </div>
+      {!validCoords && <p className="text-xs text-red-600">Longitude must be within ±180 and latitude within ±90.</p>}
+      <div className="flex gap-2">
+        <Button size="sm" onClick={save} disabled={!validCoords}><Save className="w-4 h-4 mr-1"/> Save</Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+/** Category colour dot, drawn like the map marker: hollow for wishlist, faded for planned. */
+function PinDot({ color, status }) {
+  const key = statusOf(status).key;
+  return (
+    <span className={`inline-block w-2.5 h-2.5 rounded-full ${key === "planned" ? "opacity-60" : ""}`}
+      style={key === "wishlist" ? { border: `2px solid ${color}` } : { backgroundColor: color }}/>
+  );
+}
+
+function PinTags({ tags }) {
+  if (!tags?.length) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {tags.map(t => <span key={t} className="text-[11px] rounded-full bg-muted px-1.5">#{t}</span>)}
+    </div>
+  );
+}
+
+/** 1-5 star picker; clicking the current rating again clears it. */
+function RatingInput({ value, onChange }) {
+  return (
+    <div className="flex items-center" title={value ? `${value} of ${MAX_RATING}` : "No rating"}>
+      {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(n => (
+        <button key={n} type="button" className="p-0.5" onClick={() => onChange(n === value ? 0 : n)} aria-label={`Rate ${n}`}>
+          <Star className={`w-4 h-4 ${n <= value ? "fill-amber-400 text-amber-400" : "text-muted-foreground"}`}/>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** Total great-circle distance of a trip, plus the routed distance/time (or its loading/error/unavailable state). */
+function TripLegSummary({ summary, onRetry }) {
+  if (!summary?.legs.length) return null;
+  const { route } = summary;
+  const routedTotal = route?.status === "ok" && route.result.legs.reduce(
+    (acc, l) => ({ distance: acc.distance + l.distance, duration: acc.duration + l.duration }), { distance: 0, duration: 0 });
+  return (
+    <div className="text-xs rounded-xl border px-3 py-2 space-y-1">
+      <div><span className="font-medium">{formatDistance(summary.distance)}</span> <span className="text-muted-foreground">{travelPhrase("straight")}</span></div>
+      {route?.status === "loading" && <div className="text-muted-foreground">Routing {travelPhrase(summary.mode)}…</div>}
+      {route?.status === "unavailable" && <div className="text-muted-foreground">No routing engine is configured, so there are no times {travelPhrase(summary.mode)}.</div>}
+      {routedTotal && (
+        <div><span className="font-medium">{formatDistance(routedTotal.distance)} · {formatDuration(routedTotal.duration)}</span> <span className="text-muted-foreground">{travelPhrase(summary.mode)}</span></div>
+      )}
+      {route?.status === "error" && (
+        <div className="flex items-center justify-between gap-2 text-red-600">
+          <span className="truncate">{route.error}</span>
+          <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => onRetry(summary.routeKey)}>Retry</Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Thumbnails of a pin's attachments; images open full size, other files download. */
+function AttachmentGallery({ ids, onRemove, readOnly }) {
+  const [views, setViews] = useState([]);
+  const [fullUrl, setFullUrl] = useState(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(ids.map(loadAttachmentView)).then(loaded => { if (!cancelled) setViews(loaded.filter(Boolean)); });
+    return () => { cancelled = true; };
+  }, [ids.join(",")]);
+
+  const open = async (view) => {
+    const url = await attachmentUrl(view.id, "full");
+    if (!url) return;
+    if (view.type.startsWith("image/")) {
+      setFullUrl(url);
+    } else {
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = view.name;
+      a.click();
+    }
+  };
+
+  if (!views.length) return null;
+  return (
+    <>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {views.map(view => (
+          <div key={view.id} className="relative group shrink-0">
+            <button type="button" onClick={() => open(view)} title={view.name}
+              className="w-20 h-20 rounded-lg overflow-hidden bg-muted flex items-center justify-center">
+              {view.thumbUrl
+                ? <img src={view.thumbUrl} alt={view.name} className="w-full h-full object-cover"/>
+                : <div className="p-1 text-center text-[10px] break-all"><FileText className="w-5 h-5 mx-auto mb-1"/>{view.name}</div>}
+            </button>
+            {!readOnly && (
+              // Touch screens have no hover, so the button stays visible there
+              <button type="button" onClick={() => onRemove(view.id)} title="Remove"
+                className={`absolute top-1 right-1 ${isCoarsePointer() ? "flex" : "hidden group-hover:flex group-focus-within:flex"} w-5 h-5 items-center justify-center rounded-full bg-white/90 shadow`}>
+                <X className="w-3 h-3"/>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {fullUrl && (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-6" onClick={() => setFullUrl(null)}>
+          <img src={fullUrl} alt="" className="max-w-full max-h-full rounded-lg shadow-2xl"/>
+        </div>
+      )}
+    </>
+  );
+}
+
+/** Search box, category, status and tag facets, rating, date range, trip membership, sort order and viewport toggle. */
+function PinFilterBar({ filter, onChange, categories, counts, trips, tags }) {
+  const set = (changes) => onChange(f => ({ ...f, ...changes }));
+  const toggle = (field, key) => set({
+    [field]: filter[field].includes(key) ? filter[field].filter(k => k !== key) : [...filter[field], key]
+  });
+  const active = JSON.stringify({ ...filter, sort: EMPTY_PIN_FILTER.sort }) !== JSON.stringify(EMPTY_PIN_FILTER);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="w-4 h-4 absolute left-2.5 top-2.5 text-muted-foreground"/>
+        <Input className="pl-8" placeholder="Search titles, descriptions and tags" value={filter.query} onChange={e => set({ query: e.target.value })} />
+      </div>
+      {filter.country && (
+        <Button size="sm" className="h-7 px-2 text-xs" title="Clear country filter" onClick={() => set({ country: "" })}>
+          In {countryById(filter.country)?.name || filter.country} <X className="w-3 h-3 ml-1"/>
+        </Button>
+      )}
+      <div className="flex flex-wrap gap-1">
+        {categories.map(c => (
+          <Button key={c.key} size="sm" className="h-7 px-2 text-xs" variant={filter.categories.includes(c.key) ? "default" : "outline"} onClick={() => toggle("categories", c.key)}>
+            {c.icon} {c.label} <span className="ml-1 opacity-70">{counts[c.key] || 0}</span>
+          </Button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {PIN_STATUSES.map(st => (
+          <Button key={st.key} size="sm" className="h-7 px-2 text-xs" variant={filter.statuses.includes(st.key) ? "default" : "outline"} onClick={() => toggle("statuses", st.key)}>
+            {st.icon} {st.label}
+          </Button>
+        ))}
+        <Select value={String(filter.minRating)} onValueChange={v => set({ minRating: Number(v) })}>
+          <SelectTrigger className="h-7 w-28 text-xs"><SelectValue/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0">Any rating</SelectItem>
+            {Array.from({ length: MAX_RATING - 1 }, (_, i) => i + 2).map(n => <SelectItem key={n} value={String(n)}>{"★".repeat(n)} & up</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(t => (
+            <Button key={t} size="sm" className="h-6 px-2 text-[11px] rounded-full" variant={filter.tags.includes(t) ? "default" : "outline"} onClick={() => toggle("tags", t)}>
+              #{t}
+            </Button>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <Input type="date" className="h-8 text-xs" title="From date" value={filter.from} onChange={e => set({ from: e.target.value })} />
+        <Input type="date" className="h-8 text-xs" title="To date" value={filter.to} onChange={e => set({ to: e.target.value })} />
+        <Select value={filter.trip} onValueChange={v => set({ trip: v })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any trip or none</SelectItem>
+            <SelectItem value="none">Not in any trip</SelectItem>
+            {trips.map(t => <SelectItem key={t.id} value={t.id}>Only in {t.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={filter.sort} onValueChange={v => set({ sort: v })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue/></SelectTrigger>
+          <SelectContent>
+            {PIN_SORTS.map(o => <SelectItem key={o.key} value={o.key}>{o.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-xs">
+          <Checkbox checked={filter.viewportOnly} onCheckedChange={v => set({ viewportOnly: Boolean(v) })} />
+          Only what's in the current view
+        </label>
+        {active && <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => onChange({ ...EMPTY_PIN_FILTER, sort: filter.sort })}>Clear filters</Button>}
+      </div>
+    </div>
+  );
+}
+
+/** Create, rename, recolour, re-icon and delete categories. Deleting a used category asks where its pins go. */
+function CategoryManager({ categories, counts, onAdd, onUpdate, onDelete }) {
+  const [newLabel, setNewLabel] = useState("");
+  const [deleting, setDeleting] = useState(null); // { key, reassignTo }
+
+  const requestDelete = (key) => {
+    if (!counts[key]) return onDelete(key);
+    setDeleting({ key, reassignTo: categories.find(c => c.key !== key).key });
+  };
+
+  return (
+    <div className="space-y-2">
+      {categories.map(c => (
+        <div key={c.key} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <input type="color" value={c.color} title="Colour" className="w-7 h-7 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+              onChange={e => onUpdate(c.key, { color: e.target.value })} />
+            <Select value={c.icon} onValueChange={icon => onUpdate(c.key, { icon })}>
+              <SelectTrigger className="h-8 w-16 px-2"><SelectValue/></SelectTrigger>
+              <SelectContent>
+                {[...new Set([c.icon, ...CATEGORY_ICONS])].map(icon => <SelectItem key={icon} value={icon}>{icon}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <CategoryLabelInput label={c.label} onRename={label => onUpdate(c.key, { label })} />
+            <Badge variant="secondary">{counts[c.key] || 0}</Badge>
+            <Button size="icon" variant="ghost" className="shrink-0 text-red-600 hover:text-red-700" disabled={categories.length < 2}
+              onClick={() => requestDelete(c.key)} title="Delete category"><Trash2 className="w-4 h-4"/></Button>
+          </div>
+          {deleting?.key === c.key && (
+            <div className="rounded-xl border border-red-200 bg-red-50 p-2 space-y-2">
+              <div className="text-xs text-red-700">{counts[c.key]} pins use “{c.label}”. Move them to:</div>
+              <div className="flex gap-2">
+                <Select value={deleting.reassignTo} onValueChange={v => setDeleting(d => ({ ...d, reassignTo: v }))}>
+                  <SelectTrigger className="h-8"><SelectValue/></SelectTrigger>
+                  <SelectContent>
+                    {categories.filter(o => o.key !== c.key).map(o => <SelectItem key={o.key} value={o.key}>{o.icon} {o.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" variant="destructive" onClick={() => { onDelete(c.key, deleting.reassignTo); setDeleting(null); }}>Delete</Button>
+                <Button size="sm" variant="ghost" onClick={() => setDeleting(null)}>Cancel</Button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+      <div className="flex gap-2 pt-1">
+        <Input className="h-8" placeholder="New category" value={newLabel} onChange={e => setNewLabel(e.target.value)}
+          onKeyDown={e => { if (e.key === "Enter" && newLabel.trim()) { onAdd(newLabel); setNewLabel(""); } }} />
+        <Button size="sm" onClick={() => { onAdd(newLabel); setNewLabel(""); }} disabled={!newLabel.trim()}><Plus className="w-4 h-4 mr-1"/>Add</Button>
+      </div>
+    </div>
+  );
+}
+
+/** Renames as you type; the field may be cleared while typing, but falls back to the saved label on blur. */
+function CategoryLabelInput({ label, onRename }) {
+  const [draft, setDraft] = useState(null); // null while not editing
+  return (
+    <Input className="h-8" value={draft ?? label} onBlur={() => setDraft(null)}
+      onChange={e => {
+        setDraft(e.target.value);
+        if (e.target.value.trim()) onRename(e.target.value);
+      }} />
+  );
+}
+
+/** Suggests a shorter stop order for a trip, with optional fixed first/last stops. */
+function OptimiseOrderPanel({ trip, pins, onApply, onCancel }) {
+  const stops = trip.pinIds.map(id => pins.find(p => p.id === id)).filter(Boolean);
+  // Trips usually start from where you sleep, so default the start to the first "stay" pin
+  const [startId, setStartId] = useState(() => stops.find(p => p.category === "stay")?.id || "any");
+  const [endId, setEndId] = useState("any");
+
+  const result = useMemo(() => {
+    const order = optimiseStopOrder(stops, {
+      start: stops.find(p => p.id === startId),
+      end: stops.find(p => p.id === endId)
+    });
+    return {
+      pinIds: order.map(p => p.id),
+      before: pathDistance(stops),
+      after: pathDistance(order)
+    };
+  }, [trip.pinIds, pins, startId, endId]);
+
+  const saved = result.before - result.after;
+  const changed = result.pinIds.join() !== stops.map(p => p.id).join();
+
+  const stopSelect = (value, onChange, placeholder, exclude) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 text-xs"><SelectValue placeholder={placeholder}/></SelectTrigger>
+      <SelectContent>
+        <SelectItem value="any">{placeholder}</SelectItem>
+        {stops.filter(p => p.id !== exclude).map(p => <SelectItem key={p.id} value={p.id}>{p.title}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="rounded-xl border p-3 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <div className="text-[11px] text-muted-foreground">Start at</div>
+          {stopSelect(startId, setStartId, "Any stop", endId)}
+        </div>
+        <div className="space-y-1">
+          <div className="text-[11px] text-muted-foreground">End at</div>
+          {stopSelect(endId, setEndId, "Any stop", startId)}
+        </div>
+      </div>
+      <div className="text-xs">
+        {formatDistance(result.before)} → <span className="font-medium">{formatDistance(result.after)}</span>
+        {saved > 1 ? <span className="text-green-700"> (saves {formatDistance(saved)})</span>
+          : <span className="text-muted-foreground"> (no shorter order found)</span>}
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => onApply(result.pinIds)} disabled={!changed}>Apply order</Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+/** Totals, pins over time, trip distances, furthest-apart pins and countries, plus the heatmap toggle. */
+function StatsPanel({ stats, categories, showHeatmap, onShowHeatmap, onFocusPins, onFilterCountry }) {
+  const [period, setPeriod] = useState("month");
+  const series = period === "year" ? stats.byYear : stats.byMonth;
+  const maxCount = Math.max(1, ...series.map(s => s.count));
+  const maxCategory = Math.max(1, ...Object.values(stats.categories));
+  const bar = (value, max, color) => (
+    <div className="h-2 rounded-full bg-muted flex-1 overflow-hidden">
+      <div className="h-full rounded-full" style={{ width: `${(value / max) * 100}%`, background: color }} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {[
+          ["Pins", stats.pinCount],
+          ["Trips", stats.tripCount],
+          ["Countries", stats.countries.length],
+          ["Trip distance", formatDistance(stats.totalTripDistance)]
+        ].map(([label, value]) => (
+          <Card key={label} className="shadow-sm">
+            <CardContent className="p-3">
+              <div className="text-xs text-muted-foreground">{label}</div>
+              <div className="text-lg font-semibold">{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox checked={showHeatmap} onCheckedChange={v => onShowHeatmap(Boolean(v))} />
+        Show pin density heatmap on the map
+      </label>
+
+      <Card className="shadow-sm">
+        <CardContent className="p-3 space-y-2">
+          <div className="text-sm font-medium">By category</div>
+          {categories.filter(c => stats.categories[c.key]).map(c => (
+            <div key={c.key} className="flex items-center gap-2 text-xs">
+              <span className="w-28 truncate">{c.icon} {c.label}</span>
+              {bar(stats.categories[c.key], maxCategory, c.color)}
+              <span className="w-8 text-right">{stats.categories[c.key]}</span>
+            </div>
+          ))}
+          {!stats.pinCount && <div className="text-xs text-muted-foreground">No pins yet.</div>}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-sm">
+        <CardContent className="p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium">Pins over time</div>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="h-7 w-24 text-xs"><SelectValue/></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Monthly</SelectItem>
+                <SelectItem value="year">Yearly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 max-h-56 overflow-y-auto">
+            {series.map(s => (
+              <div key={s.period} className="flex items-center gap-2 text-xs">
+                <span className="w-16 shrink-0 text-muted-foreground">{s.period}</span>
+                {bar(s.count, maxCount, "#3b82f6")}
+                <span className="w-8 text-right">{s.count}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-sm">
+        <CardContent className="p-3 space-y-1">
+          <div className="text-sm font-medium">Trip distances</div>
+          {stats.trips.map(t => (
+            <div key={t.tripId} className="flex justify-between gap-2 text-xs">
+              <span className="truncate">{t.name}</span>
+              <span className="shrink-0">{formatDistance(t.distance)}</span>
+            </div>
+          ))}
+          {!stats.trips.length && <div className="text-xs text-muted-foreground">No trips yet.</div>}
+          <p className="text-[11px] text-muted-foreground">Great-circle distance between consecutive stops.</p>
+        </CardContent>
+      </Card>
+
+      {stats.furthest && (
+        <Card className="shadow-sm">
+          <CardContent className="p-3 space-y-1">
+            <div className="text-sm font-medium">Furthest apart</div>
+            <div className="text-xs">{stats.furthest.a.title} ↔ {stats.furthest.b.title}</div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">{formatDistance(stats.furthest.distance)}</span>
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => onFocusPins(stats.furthest.a, stats.furthest.b)}>Show on map</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-sm">
+        <CardContent className="p-3 space-y-1">
+          <div className="text-sm font-medium">Countries</div>
+          <div className="flex flex-wrap gap-1">
+            {stats.countries.map(c => (
+              <Button key={c.id} size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => onFilterCountry(c.id)}>
+                {c.name} <span className="ml-1 opacity-70">{c.count}</span>
+              </Button>
+            ))}
+          </div>
+          {!stats.countries.length && <div className="text-xs text-muted-foreground">No visited pins on land yet.</div>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/** Play/pause, scrubbing and speed for trip playback. */
+function PlaybackControls({ trip, state, timeline, frame, timeRef, onChange, onClose }) {
+  // The scrubber follows the live time itself, so playing re-renders only these controls
+  const [time, setTime] = useState(timeRef.current);
+  useEffect(() => {
+    setTime(timeRef.current);
+    if (!state.playing) return;
+    let raf = requestAnimationFrame(function tick() {
+      setTime(timeRef.current);
+      raf = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(raf);
+  }, [state.playing, state.t]);
+  const ended = time >= timeline.duration;
+  return (
+    <Card className="shadow-2xl border-0 bg-white/95 backdrop-blur">
+      <CardContent className="p-3 space-y-2">
+        <div className="text-xs text-muted-foreground truncate">{trip.name} · stop {frame.stopIndex + 1} of {timeline.stops.length}</div>
+        <div className="flex items-center gap-2">
+          <Button size="icon" title={state.playing ? "Pause" : "Play"}
+            onClick={() => onChange(state.playing ? { playing: false } : { playing: true, ...(ended ? { t: 0 } : {}) })}>
+            {state.playing ? <Pause className="w-4 h-4"/> : <Play className="w-4 h-4"/>}
+          </Button>
+          <input type="range" className="flex-1 accent-blue-600" aria-label="Playback position"
+            min={0} max={timeline.duration} step={10} value={time} onChange={e => onChange({ t: Number(e.target.value) })} />
+          <Select value={String(state.speed)} onValueChange={v => onChange({ speed: Number(v) })}>
+            <SelectTrigger className="h-8 w-20 text-xs"><SelectValue/></SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_SPEEDS.map(speed => <SelectItem key={speed} value={String(speed)}>{speed}×</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button size="icon" variant="ghost" title="Close playback" onClick={onClose}><X className="w-4 h-4"/></Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Trip dates and per-stop arrival/departure times, shown as a day-by-day timeline. */
+function ItineraryPanel({ trip, pins, readOnly, onChange, onExport, onClose }) {
+  const days = useMemo(() => itineraryDays(trip, pins), [trip, pins]);
+  const warnings = useMemo(() => itineraryWarnings(trip, pins), [trip, pins]);
+  const warned = new Set(warnings.map(w => w.pinId));
+  const dayMin = trip.startDate ? `${trip.startDate}T00:00` : undefined;
+  const dayMax = trip.endDate ? `${trip.endDate}T23:59` : undefined;
+
+  const setTime = (pin, field, value) => {
+    const times = Object.fromEntries(Object.entries({ ...trip.schedule?.[pin.id], [field]: value }).filter(([, v]) => v));
+    const schedule = { ...trip.schedule, [pin.id]: times };
+    if (!Object.keys(times).length) delete schedule[pin.id];
+    // Typing a date-time fires on every segment; keep it to one history entry per field
+    onChange({ schedule }, `Scheduled ${pin.title} in ${trip.name}`, `schedule:${trip.id}:${pin.id}:${field}`);
+  };
+
+  const dateField = (label, field) => (
+    <div className="space-y-1">
+      <div className="text-[11px] text-muted-foreground">{label}</div>
+      <Input type="date" className="h-8 text-xs" value={trip[field] || ""} disabled={readOnly}
+        onChange={e => onChange({ [field]: e.target.value || undefined }, `Set ${label.toLowerCase()} of ${trip.name}`, `dates:${trip.id}:${field}`)} />
+    </div>
+  );
+
+  return (
+    <div className="rounded-xl border p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {dateField("Start date", "startDate")}
+        {dateField("End date", "endDate")}
+      </div>
+      {days.map((d, i) => (
+        <div key={`${i}:${d.day}`} className="space-y-2">
+          <div className="flex items-center gap-2 text-xs font-medium">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ background: d.color || "#9ca3af" }} />
+            {d.day ? `${d.number >= 1 ? `Day ${d.number} · ` : ""}${formatDay(d.day)}` : "Unscheduled"}
+          </div>
+          {d.stops.map(({ pin, arrive, depart }) => (
+            <div key={pin.id} className="pl-4 space-y-1">
+              <div className={`text-sm truncate ${warned.has(pin.id) ? "text-amber-700" : ""}`}>{pin.title}</div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input type="datetime-local" className="h-8 text-xs" aria-label={`Arrival at ${pin.title}`} min={dayMin} max={dayMax} disabled={readOnly}
+                  value={arrive} onChange={e => setTime(pin, "arrive", e.target.value)} />
+                <Input type="datetime-local" className="h-8 text-xs" aria-label={`Departure from ${pin.title}`} min={dayMin} max={dayMax} disabled={readOnly}
+                  value={depart} onChange={e => setTime(pin, "depart", e.target.value)} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+      {warnings.length > 0 && (
+        <ul className="text-xs text-amber-700 space-y-0.5">
+          {warnings.map((w, i) => <li key={i}>⚠ {w.message}</li>)}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={onExport} disabled={!days.some(d => d.day)}><Download className="w-4 h-4 mr-1"/>Export .ics</Button>
+        <Button size="sm" variant="ghost" onClick={onClose}>Close</Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Number input that keeps what is being typed ("0.", "") and reports only complete values:
+ * a number, or undefined once cleared.
+ */
+function NumberField({ value, onCommit, ...props }) {
+  const [text, setText] = useState(value ?? "");
+  useEffect(() => {
+    if (text === "" ? value !== undefined : Number(text) !== value) setText(value ?? "");
+  }, [value]);
+  return (
+    <Input type="number" inputMode="decimal" step="any" min="0" {...props} value={text} onChange={e => {
+      setText(e.target.value);
+      const n = Number(e.target.value);
+      if (e.target.value === "") onCommit(undefined);
+      else if (Number.isFinite(n) && n >= 0) onCommit(n);
+    }} />
+  );
+}
+
+/** The rate table: what one unit of each currency is worth in the home currency. */
+function CurrencyManager({ currencies, used, onAdd, onSetRate, onSetHome, onDelete }) {
+  const [newCode, setNewCode] = useState("");
+  const [newRate, setNewRate] = useState(undefined);
+  const home = homeCurrency(currencies).code;
+  const add = () => {
+    onAdd(newCode, newRate);
+    setNewCode("");
+    setNewRate(undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-muted-foreground">Value of 1 unit in {home}. Amounts in a currency without a rate are left out of totals.</div>
+      {currencies.map(c => (
+        <div key={c.code} className="flex items-center gap-2">
+          <div className="w-12 font-mono text-sm">{c.code}</div>
+          {c.home
+            ? <div className="flex-1 text-xs text-muted-foreground">Home currency</div>
+            : <NumberField className="h-8 flex-1" placeholder="No rate" aria-label={`${c.code} rate`} value={c.rate} onCommit={rate => onSetRate(c.code, rate)} />}
+          {!c.home && (
+            <Button size="sm" variant="ghost" className="h-8 px-2 text-xs" disabled={!c.rate} onClick={() => onSetHome(c.code)}
+              title="Quote all rates in this currency">Make home</Button>
+          )}
+          <Button size="icon" variant="ghost" className="shrink-0 text-red-600 hover:text-red-700" disabled={c.home || used.has(c.code)}
+            onClick={() => onDelete(c.code)} title={used.has(c.code) ? "Used by expenses or budgets" : "Delete currency"}><Trash2 className="w-4 h-4"/></Button>
+        </div>
+      ))}
+      <div className="flex gap-2 pt-1">
+        <Input className="h-8 w-20 font-mono uppercase" placeholder="USD" maxLength={3} value={newCode} onChange={e => setNewCode(e.target.value.toUpperCase())} />
+        <NumberField className="h-8" placeholder={`Rate in ${home}`} value={newRate} onCommit={setNewRate} />
+        <Button size="sm" onClick={add} disabled={!isCurrencyCode(newCode) || currencies.some(c => c.code === newCode)}><Plus className="w-4 h-4 mr-1"/>Add</Button>
+      </div>
+    </div>
+  );
+}
+
+/** A pin's expenses, with a one-line form to add more. */
+function ExpenseList({ expenses, currencies, readOnly, onAdd, onRemove }) {
+  const [draft, setDraft] = useState(() => ({ amount: undefined, currency: homeCurrency(currencies).code, category: EXPENSE_CATEGORIES[0].key, note: "" }));
+  const add = () => {
+    if (!(draft.amount > 0)) return;
+    onAdd({ amount: draft.amount, currency: draft.currency, category: draft.category, ...(draft.note.trim() ? { note: draft.note.trim() } : {}) });
+    setDraft(d => ({ ...d, amount: undefined, note: "" }));
+  };
+
+  if (readOnly && !expenses.length) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium">Expenses</div>
+      {expenses.map(e => (
+        <div key={e.id} className="flex items-center gap-2 text-xs">
+          <span>{expenseCategoryOf(e.category).icon}</span>
+          <span className="flex-1 truncate">{e.note || expenseCategoryOf(e.category).label}</span>
+          <span className="font-medium">{formatMoney(e.amount, e.currency)}</span>
+          {!readOnly && (
+            <button type="button" className="text-muted-foreground hover:text-red-600" onClick={() => onRemove(e.id)} title="Remove expense"><X className="w-3 h-3"/></button>
+          )}
+        </div>
+      ))}
+      {!readOnly && (
+        <div className="grid grid-cols-[minmax(0,1fr)_5rem_3.5rem] gap-1 pt-1">
+          <NumberField className="h-8 text-xs" placeholder="Amount" value={draft.amount} onCommit={amount => setDraft(d => ({ ...d, amount }))} />
+          <Select value={draft.currency} onValueChange={currency => setDraft(d => ({ ...d, currency }))}>
+            <SelectTrigger className="h-8 text-xs"><SelectValue/></SelectTrigger>
+            <SelectContent>
+              {currencies.map(c => <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={draft.category} onValueChange={category => setDraft(d => ({ ...d, category }))}>
+            <SelectTrigger className="h-8 px-2 text-xs"><SelectValue/></SelectTrigger>
+            <SelectContent>
+              {EXPENSE_CATEGORIES.map(c => <SelectItem key={c.key} value={c.key}>{c.icon} {c.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Input className="h-8 col-span-2 text-xs" placeholder="Note (optional)" value={draft.note} onChange={e => setDraft(d => ({ ...d, note: e.target.value }))}
+            onKeyDown={e => { if (e.key === "Enter") add(); }} />
+          <Button size="sm" className="h-8" onClick={add} disabled={!(draft.amount > 0)}><Plus className="w-4 h-4"/></Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** One line for the trip card: "€320 of €500", red once over budget. */
+function TripSpending({ summary }) {
+  const { currency, budget, spent } = summary;
+  if (budget === null && !spent) return null;
+  return (
+    <div className={`text-xs ${budget !== null && spent > budget ? "text-red-600" : "text-muted-foreground"}`}>
+      {formatMoney(spent, currency)}{budget !== null ? ` of ${formatMoney(budget, currency)}` : " spent"}
+    </div>
+  );
+}
+
+/** Budget of a trip and what its stops have cost, by expense category and by stop. */
+function TripBudgetPanel({ trip, summary, currencies, readOnly, onSetBudget, onExport, onClose }) {
+  const { currency, budget, spent } = summary;
+  const share = budget ? Math.min(spent / budget, 1) : 0;
+  const over = budget !== null && spent > budget;
+  const row = (key, label, amount) => (
+    <div key={key} className="flex items-center justify-between gap-2 text-xs">
+      <span className="truncate">{label}</span>
+      <span className="font-medium shrink-0">{formatMoney(amount, currency)}</span>
+    </div>
+  );
+
+  return (
+    <div className="rounded-xl border p-3 space-y-3">
+      <div className="grid grid-cols-[minmax(0,1fr)_5.5rem] gap-2">
+        <NumberField className="h-8 text-xs" placeholder="Budget" aria-label={`Budget of ${trip.name}`} disabled={readOnly} value={trip.budget?.amount}
+          onCommit={amount => onSetBudget(amount === undefined ? undefined : { amount, currency })} />
+        <Select value={currency} disabled={readOnly || !trip.budget} onValueChange={code => onSetBudget({ amount: trip.budget?.amount ?? 0, currency: code })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue/></SelectTrigger>
+          <SelectContent>
+            {currencies.map(c => <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs">
+          <span className={over ? "text-red-600 font-medium" : "font-medium"}>{formatMoney(spent, currency)} spent</span>
+          {budget !== null && (
+            <span className={over ? "text-red-600" : "text-muted-foreground"}>
+              {over ? `${formatMoney(spent - budget, currency)} over` : `${formatMoney(budget - spent, currency)} left`} of {formatMoney(budget, currency)}
+            </span>
+          )}
+        </div>
+        {budget !== null && (
+          <div className="h-2 rounded-full bg-muted overflow-hidden">
+            <div className={`h-full ${over ? "bg-red-500" : "bg-emerald-500"}`} style={{ width: `${share * 100}%` }}/>
+          </div>
+        )}
+      </div>
+      {summary.byCategory.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[11px] text-muted-foreground">By category</div>
+          {summary.byCategory.map(c => row(c.key, `${c.icon} ${c.label}`, c.total))}
+        </div>
+      )}
+      {summary.byStop.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[11px] text-muted-foreground">By stop</div>
+          {summary.byStop.map(s => row(s.pin.id, s.pin.title, s.total))}
+        </div>
+      )}
+      {!summary.byStop.length && <div className="text-xs text-muted-foreground">No expenses yet. Add them on each stop's card.</div>}
+      {summary.unconverted.length > 0 && (
+        <div className="text-xs text-amber-700">
+          ⚠ Not included, no rate to {currency}: {summary.unconverted.map(u => formatMoney(u.amount, u.currency)).join(", ")}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={onExport} disabled={!summary.byStop.length && !summary.unconverted.length}><Download className="w-4 h-4 mr-1"/>Export CSV</Button>
+        <Button size="sm" variant="ghost" onClick={onClose}>Close</Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Full-screen preview of a trip report with print, HTML/Markdown export and PNG map download.
+ * The preview is the exported HTML page itself, shown in an iframe so it prints on its own.
+ */
+function TripReport({ trip, pins, categories, route, style, onClose }) {
+  const report = useMemo(() => tripReportData(trip, pins, categories, route), [trip, pins, categories, route]);
+  const [snapshot, setSnapshot] = useState({ status: "loading" }); // loading | ok | error
+  const [size, setSize] = useState(SNAPSHOT_SIZES[1].key);
+  const [png, setPng] = useState({ status: "idle" }); // idle | working | error
+  const frameRef = useRef(null);
+  const slug = fileSlug(trip.name, "trip");
+
+  // Each render builds a whole off-screen map, so only changes to what it shows trigger one
+  const snapshotKey = JSON.stringify([trip.color, tripCoords(trip, pins)]);
+  const tripRef = useRef({ trip, pins });
+  tripRef.current = { trip, pins };
+  useEffect(() => {
+    let cancelled = false;
+    setSnapshot({ status: "loading" });
+    renderTripSnapshot({ ...tripRef.current, routed: route?.geometry, style, ...SNAPSHOT_SIZES[0] })
+      .then(canvas => { if (!cancelled) setSnapshot({ status: "ok", url: canvas.toDataURL("image/png") }); })
+      .catch(err => { if (!cancelled) setSnapshot({ status: "error", message: err.message }); });
+    return () => { cancelled = true; };
+  }, [snapshotKey, route, style]);
+
+  const html = useMemo(() => tripReportHTML(report, snapshot.url), [report, snapshot.url]);
+
+  const downloadPng = async () => {
+    setPng({ status: "working" });
+    try {
+      const canvas = await renderTripSnapshot({ trip, pins, routed: route?.geometry, style, ...SNAPSHOT_SIZES.find(s => s.key === size) });
+      const blob = await new Promise(resolve => canvas.toBlob(resolve, "image/png"));
+      if (!blob) throw new Error("This browser could not encode an image that large.");
+      downloadBlob(`${slug}-map.png`, blob);
+      setPng({ status: "idle" });
+    } catch (err) {
+      setPng({ status: "error", message: err.message });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex flex-col p-2 sm:p-6" role="dialog" aria-label={`Report for ${trip.name}`}>
+      <div className="bg-white rounded-t-2xl border-b px-3 py-2 flex flex-wrap items-center gap-2">
+        <div className="font-semibold text-sm truncate mr-auto">Report · {trip.name}</div>
+        <Button size="sm" onClick={() => frameRef.current?.contentWindow.print()} disabled={snapshot.status === "loading"}>Print / PDF</Button>
+        <Button size="sm" variant="outline" onClick={() => downloadText(`${slug}-report.html`, html, "text/html")} disabled={snapshot.status === "loading"}>
+          <Download className="w-4 h-4 mr-1"/>HTML
+        </Button>
+        <Button size="sm" variant="outline" title={`Links the map as ${slug}-map.png; download the PNG next to it`}
+          onClick={() => downloadText(`${slug}-report.md`, tripReportMarkdown(report, `${slug}-map.png`), "text/markdown")}>
+          <Download className="w-4 h-4 mr-1"/>Markdown
+        </Button>
+        <Select value={size} onValueChange={setSize}>
+          <SelectTrigger className="h-8 w-32 text-xs"><SelectValue/></SelectTrigger>
+          <SelectContent>
+            {SNAPSHOT_SIZES.map(s => <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" onClick={downloadPng} disabled={png.status === "working"}>
+          <ImageIcon className="w-4 h-4 mr-1"/>{png.status === "working" ? "Rendering…" : "PNG"}
+        </Button>
+        <Button size="icon" variant="ghost" onClick={onClose} title="Close"><X className="w-4 h-4"/></Button>
+      </div>
+      {(snapshot.status !== "ok" || png.status === "error") && (
+        <div className="bg-white px-3 py-1 text-xs border-b">
+          {snapshot.status === "loading" && <span className="text-muted-foreground">Drawing the route map…</span>}
+          {snapshot.status === "error" && <span className="text-amber-700">No map in this report: {snapshot.message}</span>}
+          {png.status === "error" && <span className="text-red-600 ml-2">PNG failed: {png.message}</span>}
+        </div>
+      )}
+      <iframe ref={frameRef} title={`Report for ${trip.name}`} srcDoc={html} className="flex-1 w-full bg-white rounded-b-2xl"/>
+    </div>
+  );
+}
+
+// ==== Pin search & filters ====
+const EMPTY_PIN_FILTER = {
+  query: "",
+  categories: [], // empty = all
+  from: "", // yyyy-mm-dd, inclusive
+  to: "",
+  trip: "any", // any | none | <trip id>
+  country: "", // country id (see Countries), empty = any
+  statuses: [], // empty = all
+  minRating: 0,
+  tags: [], // pins must carry every selected tag
+  sort: "added",
+  viewportOnly: false
+};
+
+const PIN_SORTS = [
+  { key: "added", label: "Recently added" },
+  { key: "date-desc", label: "Date (newest)" },
+  { key: "date-asc", label: "Date (oldest)" },
+  { key: "title", label: "Title (A–Z)" },
+  { key: "rating", label: "Rating (best)" },
+  { key: "distance", label: "Nearest to map centre" },
+];
+
+// Lower-case and strip accents so "cafe" finds "Café"
+const foldText = (text) => (text || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+function filterPins(pins, filter, trips) {
+  const terms = foldText(filter.query).split(/\s+/).filter(Boolean);
+  const inTrips = new Set(trips.flatMap(t => t.pinIds));
+  const trip = trips.find(t => t.id === filter.trip);
+  return pins.filter(p => {
+    if (filter.categories.length && !filter.categories.includes(p.category)) return false;
+    if (filter.from && p.date < filter.from) return false;
+    if (filter.to && p.date > filter.to) return false;
+    if (filter.trip === "none" && inTrips.has(p.id)) return false;
+    if (trip && !trip.pinIds.includes(p.id)) return false;
+    if (filter.country && pinCountry(p)?.id !== filter.country) return false;
+    if (filter.statuses.length && !filter.statuses.includes(statusOf(p.status).key)) return false;
+    if (filter.minRating && (p.rating || 0) < filter.minRating) return false;
+    if (filter.tags.length) {
+      const own = new Set((p.tags || []).map(t => t.toLowerCase()));
+      if (!filter.tags.every(t => own.has(t.toLowerCase()))) return false;
+    }
+    if (terms.length) {
+      const haystack = foldText(`${p.title} ${p.description} ${(p.tags || []).join(" ")}`);
+      if (!terms.every(t => haystack.includes(t))) return false;
+    }
+    return true;
+  });
+}
+
+function sortPins(pins, sort, center) {
+  const sorted = [...pins];
+  switch (sort) {
+    case "date-desc": return sorted.sort((a, b) => b.date.localeCompare(a.date));
+    case "date-asc": return sorted.sort((a, b) => a.date.localeCompare(b.date));
+    case "title": return sorted.sort((a, b) => a.title.localeCompare(b.title));
+    case "rating": return sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
+    case "distance": return center ? sorted.sort((a, b) => distanceMeters(center, a.lngLat) - distanceMeters(center, b.lngLat)) : sorted;
+    default: return sorted; // "added": newest pins are already first
+  }
+}
+
+const wrapLng = (lng) => ((lng + 180) % 360 + 360) % 360 - 180;
+
+// Bounds may cross the antimeridian (west > east once wrapped) or span the whole world
+function inBounds([lng, lat], [w, s, e, n]) {
+  if (lat < s || lat > n) return false;
+  if (e - w >= 360) return true;
+  const west = wrapLng(w), east = wrapLng(e), x = wrapLng(lng);
+  return west <= east ? x >= west && x <= east : x >= west || x <= east;
+}
+
+function readViewport(map) {
+  const b = map.getBounds();
+  const c = map.getCenter();
+  return { center: [c.lng, c.lat], bounds: [b.getWest(), b.getSouth(), b.getEast(), b.getNorth()] };
+}
+
+// ==== Countries ====
+// Country lookup runs offline against the simplified Natural Earth boundaries bundled with
+// world-atlas (1:110m), so pins get a country without calling any geocoding service.
+const COUNTRY_SNAP_M = 25000; // simplified coastlines cut off harbours and small islands; pins this close still count
+
+let countryIndex = null;
+function countries() {
+  if (!countryIndex) {
+    countryIndex = feature(worldCountries, worldCountries.objects.countries).features.map(f => ({
+      id: String(f.id ?? f.properties.name), // a few disputed areas have no ISO code
+      name: f.properties.name,
+      geometry: f.geometry,
+      bbox: geometryBBox(f.geometry)
+    }));
+  }
+  return countryIndex;
+}
+
+const countryById = (id) => countries().find(c => c.id === id) || null;
+
+/** GeoJSON for the map layer; feature ids are the country ids so feature-state can hold pin counts. */
+const countriesGeoJSON = () => ({
+  type: "FeatureCollection",
+  features: countries().map(c => ({ type: "Feature", id: c.id, geometry: c.geometry, properties: { id: c.id, name: c.name } }))
+});
+
+function geometryBBox(geometry) {
+  const box = [Infinity, Infinity, -Infinity, -Infinity];
+  polygonsOf(geometry).forEach(rings => rings[0].forEach(([x, y]) => {
+    box[0] = Math.min(box[0], x); box[1] = Math.min(box[1], y);
+    box[2] = Math.max(box[2], x); box[3] = Math.max(box[3], y);
+  }));
+  return box;
+}
+
+// Even-odd ray casting; holes are simply further rings of the same polygon
+function ringsContain(rings, [x, y]) {
+  let inside = false;
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+    }
+  });
+  return inside;
+}
+
+// Distance to the nearest boundary segment, on a local equirectangular projection (fine at snapping range)
+function distanceToRings(rings, [x, y]) {
+  const kx = Math.cos(y * Math.PI / 180) * 111320;
+  const ky = 110540;
+  let best = Infinity;
+  rings.forEach(ring => ring.slice(1).forEach((b, i) => {
+    const a = ring[i];
+    const [ax, ay, bx, by] = [(a[0] - x) * kx, (a[1] - y) * ky, (b[0] - x) * kx, (b[1] - y) * ky];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const t = dx || dy ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / (dx * dx + dy * dy))) : 0;
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }));
+  return best;
+}
+
+const polygonsOf = (geometry) => geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+/** The country containing a [lng, lat] point (or within COUNTRY_SNAP_M of its coast), or null at sea. */
+function countryAt(lngLat) {
+  const near = (c, margin) => {
+    const [w, s, e, n] = c.bbox;
+    return lngLat[0] >= w - margin && lngLat[0] <= e + margin && lngLat[1] >= s - margin && lngLat[1] <= n + margin;
+  };
+  const inside = countries().find(c => near(c, 0) && polygonsOf(c.geometry).some(rings => ringsContain(rings, lngLat)));
+  if (inside) return inside;
+  let best = null;
+  countries().filter(c => near(c, 1)).forEach(c => {
+    const d = Math.min(...polygonsOf(c.geometry).map(rings => distanceToRings(rings, lngLat)));
+    if (d <= COUNTRY_SNAP_M && (!best || d < best.d)) best = { c, d };
+  });
+  return best?.c || null;
+}
+
+// Derived, never stored: cached per Pin object, so a moved pin is looked up again
+const pinCountryCache = new WeakMap();
+function pinCountry(pin) {
+  if (!pinCountryCache.has(pin)) pinCountryCache.set(pin, countryAt(pin.lngLat));
+  return pinCountryCache.get(pin);
+}
+
+// ==== Stats ====
+// Pure functions over pins and trips, exported so they can be unit tested on their own.
+const FURTHEST_PAIR_MAX_CELLS = 1500;
+
+/** Pin count per category key. */
+export function categoryTotals(pins) {
+  return pins.reduce((acc, p) => ({ ...acc, [p.category]: (acc[p.category] || 0) + 1 }), {});
+}
+
+/** Pins per "yyyy-mm" (period "month") or "yyyy" (period "year"), oldest first, with empty periods in between. */
+export function pinsByPeriod(pins, period) {
+  const keyOf = (date) => period === "year" ? date.slice(0, 4) : date.slice(0, 7);
+  const counts = pins.filter(p => /^\d{4}-\d{2}/.test(p.date || "")).reduce((acc, p) => {
+    const key = keyOf(p.date);
+    acc[key] = (acc[key] || 0) + 1;
+    return acc;
+  }, {});
+  const keys = Object.keys(counts).sort();
+  if (!keys.length) return [];
+  const next = (key) => {
+    if (period === "year") return String(Number(key) + 1);
+    const [y, m] = key.split("-").map(Number);
+    return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, "0")}`;
+  };
+  const series = [];
+  for (let key = keys[0]; key <= keys[keys.length - 1]; key = next(key)) series.push({ period: key, count: counts[key] || 0 });
+  return series;
+}
+
+/** Great-circle length of every trip through its stops, in metres. */
+export function tripDistances(trips, pins) {
+  return trips.map(t => ({
+    tripId: t.id,
+    name: t.name,
+    distance: pathDistance(t.pinIds.map(id => pins.find(p => p.id === id)).filter(Boolean))
+  }));
+}
+
+/**
+ * The two pins furthest apart. Pins are grouped into lat/lng cells sized to their extent
+ * (coarser until there are at most FURTHEST_PAIR_MAX_CELLS); one pin per cell gives a lower
+ * bound, and only cell pairs that could still beat it are compared pin by pin. The pruning
+ * uses a flat estimate of a cell's size, so the result is a close approximation, not a proof.
+ */
+export function furthestPair(pins) {
+  if (pins.length < 2) return null;
+  const groupByCell = (size) => [...pins.reduce((cells, p) => {
+    const key = `${Math.floor(p.lngLat[0] / size)}:${Math.floor(p.lngLat[1] / size)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(p);
+    else cells.set(key, [p]);
+    return cells;
+  }, new Map()).values()];
+  const [minLng, minLat, maxLng, maxLat] = pins.reduce(([w, s, e, n], p) => [
+    Math.min(w, p.lngLat[0]), Math.min(s, p.lngLat[1]), Math.max(e, p.lngLat[0]), Math.max(n, p.lngLat[1]),
+  ], [Infinity, Infinity, -Infinity, -Infinity]);
+  let size = Math.max(maxLng - minLng, maxLat - minLat, 1e-6) / 64;
+  let cells = groupByCell(size);
+  while (cells.length > FURTHEST_PAIR_MAX_CELLS) cells = groupByCell(size *= 2);
+  // Roughly one cell diagonal either side: a degree of latitude is about 111 km, and a degree
+  // of longitude is never longer
+  const slack = 2 * size * 111320 * Math.SQRT2;
+
+  let best = null;
+  const consider = (a, b) => {
+    const distance = distanceMeters(a.lngLat, b.lngLat);
+    if (!best || distance > best.distance) best = { a, b, distance };
+    return distance;
+  };
+  cells.forEach((c, i) => cells.slice(i + 1).forEach(d => consider(c[0], d[0])));
+  const bound = best?.distance || 0;
+  cells.forEach((c, i) => cells.slice(i).forEach((d, k) => {
+    if (distanceMeters(c[0].lngLat, d[0].lngLat) + slack < bound) return;
+    c.forEach((a, ai) => (k === 0 ? c.slice(ai + 1) : d).forEach(b => consider(a, b)));
+  }));
+  return best;
+}
+
+/** Distinct countries with at least one visited pin, most pins first. */
+export function visitedCountries(pins) {
+  const counts = new Map();
+  pins.forEach(p => {
+    const country = statusOf(p.status).key === "visited" && pinCountry(p);
+    if (country) counts.set(country, (counts.get(country) || 0) + 1);
+  });
+  return [...counts].map(([country, count]) => ({ id: country.id, name: country.name, count })).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/** Everything the Stats tab shows. */
+export function atlasStats(pins, trips) {
+  const perTrip = tripDistances(trips, pins);
+  return {
+    pinCount: pins.length,
+    tripCount: trips.length,
+    categories: categoryTotals(pins),
+    byMonth: pinsByPeriod(pins, "month"),
+    byYear: pinsByPeriod(pins, "year"),
+    trips: perTrip,
+    totalTripDistance: perTrip.reduce((sum, t) => sum + t.distance, 0),
+    furthest: furthestPair(pins),
+    countries: visitedCountries(pins)
+  };
+}
+
+// ==== Attachments (IndexedDB) ====
+/**
+ * Stored under its id in the "attachments" object store; pins reference it via `attachmentIds`.
+ * @typedef {Object} Attachment
+ * @property {string} id
+ * @property {string} name
+ * @property {string} type // MIME type
+ * @property {number} size
+ * @property {Blob} blob
+ * @property {Blob|null} thumb // JPEG thumbnail for images
+ * @property {string} createdAt
+ * @property {number} [orphanedAt] // epoch ms when a sweep first found no pin referencing it
+ */
+
+const THUMBNAIL_SIZE = 320; // px, longest side
+// Other tabs, devices and undo history may still bring a pin back, so orphans are only deleted after this long
+const ATTACHMENT_ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const attachmentStore = {
+  async add(file) {
+    const record = {
+      id: crypto.randomUUID(),
+      name: file.name,
+      type: file.type || "application/octet-stream",
+      size: file.size,
+      blob: file,
+      thumb: file.type.startsWith("image/") ? await createThumbnail(file, THUMBNAIL_SIZE).catch(() => null) : null,
+      createdAt: new Date().toISOString()
+    };
+    await idbRun(await atlasDB(), "attachments", "readwrite", s => s.put(record, record.id));
+    return record;
+  },
+  async get(id) {
+    return idbRun(await atlasDB(), "attachments", "readonly", s => s.get(id));
+  },
+  /** Marks attachments no pin references, and deletes those that stayed orphaned past the grace period. */
+  async removeUnreferenced(referencedIds, now = Date.now()) {
+    await idbRun(await atlasDB(), "attachments", "readwrite", s => {
+      const req = s.openCursor();
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return;
+        const record = cursor.value;
+        if (referencedIds.has(cursor.key)) {
+          if (record.orphanedAt) cursor.update({ ...record, orphanedAt: undefined });
+        } else if (!record.orphanedAt) {
+          cursor.update({ ...record, orphanedAt: now });
+        } else if (now - record.orphanedAt > ATTACHMENT_ORPHAN_GRACE_MS) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+    });
+  }
+};
+
+async function createThumbnail(file, maxSize) {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d").drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close?.();
+  return new Promise(resolve => canvas.toBlob(resolve, "image/jpeg", 0.8));
+}
+
+// Object URLs live for the whole session; attachments are immutable so they never go stale
+const attachmentUrlCache = new Map();
+function attachmentUrl(id, variant) {
+  const key = `${id}:${variant}`;
+  if (!attachmentUrlCache.has(key)) {
+    attachmentUrlCache.set(key, attachmentStore.get(id).then(rec => {
+      const blob = variant === "thumb" ? rec?.thumb : rec?.blob;
+      return blob ? URL.createObjectURL(blob) : null;
+    }).catch(() => null));
+  }
+  return attachmentUrlCache.get(key);
+}
+
+/** Resolves to `{ id, name, type, thumbUrl }`, or null when the attachment is missing. */
+async function loadAttachmentView(id) {
+  const rec = await attachmentStore.get(id).catch(() => null);
+  if (!rec) return null;
+  return { id, name: rec.name, type: rec.type, thumbUrl: await attachmentUrl(id, "thumb") };
+}
+
+/** Reads GPS position and capture date from a JPEG's EXIF block: `{ lngLat?, date? }`. */
+async function readExif(file) {
+  try {
+    const view = new DataView(await file.slice(0, 256 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return {};
+    let offset = 2;
+    while (offset + 10 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break; // start of scan: no more metadata
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) return parseExifTiff(view, offset + 10); // "Exif"
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed metadata: treat as "no EXIF"
+  }
+  return {};
+}
+
+const EXIF_TYPE_SIZE = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+function parseExifTiff(view, start) {
+  const little = view.getUint16(start) === 0x4949; // "II"
+  const u16 = (o) => view.getUint16(start + o, little);
+  const u32 = (o) => view.getUint32(start + o, little);
+  const readIfd = (ifd) => {
+    const entries = {};
+    for (let i = 0, count = u16(ifd); i < count; i++) {
+      const e = ifd + 2 + i * 12;
+      entries[u16(e)] = { type: u16(e + 2), count: u32(e + 4), at: e + 8 };
+    }
+    return entries;
+  };
+  // Values up to 4 bytes are stored inline, larger ones at an offset from the TIFF header
+  const dataAt = (entry) => EXIF_TYPE_SIZE[entry.type] * entry.count > 4 ? u32(entry.at) : entry.at;
+  const ascii = (entry) => {
+    const o = dataAt(entry);
+    return Array.from({ length: Math.max(0, entry.count - 1) }, (_, i) => String.fromCharCode(view.getUint8(start + o + i))).join("");
+  };
+  const rationals = (entry) => {
+    const o = dataAt(entry);
+    return Array.from({ length: entry.count }, (_, i) => u32(o + i * 8) / u32(o + i * 8 + 4));
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exif = ifd0[0x8769] ? readIfd(u32(ifd0[0x8769].at)) : {};
+  const gps = ifd0[0x8825] ? readIfd(u32(ifd0[0x8825].at)) : {};
+
+  const result = {};
+  const stamp = exif[0x9003] ? ascii(exif[0x9003]) : ifd0[0x0132] ? ascii(ifd0[0x0132]) : ""; // DateTimeOriginal, DateTime
+  if (/^\d{4}:\d{2}:\d{2}/.test(stamp)) result.date = stamp.slice(0, 10).replaceAll(":", "-");
+  if (gps[2] && gps[4]) {
+    const toDeg = ([d, m, s]) => d + m / 60 + s / 3600;
+    const lat = toDeg(rationals(gps[2])) * (gps[1] && ascii(gps[1]) === "S" ? -1 : 1);
+    const lng = toDeg(rationals(gps[4])) * (gps[3] && ascii(gps[3]) === "W" ? -1 : 1);
+    if (Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) result.lngLat = [lng, lat];
+  }
+  return result;
+}
+
+// Photos taken at the same place on the same day become one draft pin with several attachments
+function groupPhotoDrafts(photos) {
+  const drafts = [];
+  photos.forEach(({ file, lngLat, date }) => {
+    const near = drafts.find(d => d.date === date && distanceMeters(d.lngLat, lngLat) <= DUPLICATE_RADIUS_M);
+    if (near) {
+      near.files.push(file);
+    } else {
+      drafts.push({ key: crypto.randomUUID(), title: file.name.replace(/\.[^.]+$/, ""), date, lngLat, files: [file], include: true });
+    }
+  });
+  return drafts;
+}
+
+// ==== Geocoding ====
+/**
+ * @typedef {Object} GeocodeResult
+ * @property {string} id
+ * @property {string} name // short place name, used as the pin title
+ * @property {string} address // full formatted address
+ * @property {number[]} lngLat
+ */
+
+/**
+ * @typedef {Object} GeocodingProvider
+ * @property {string} label
+ * @property {boolean} autocomplete // whether searching while the user types is allowed
+ * @property {(query: string, opts?: { proximity?: number[], signal?: AbortSignal }) => Promise<GeocodeResult[]>} search
+ * @property {(lngLat: number[], opts?: { signal?: AbortSignal }) => Promise<GeocodeResult|null>} reverse
+ */
+
+async function fetchGeocoderJSON(url, signal) {
+  let res;
+  try { res = await fetch(url, { signal, headers: { Accept: "application/json" } }); } catch (err) {
+    if (err.name === "AbortError") throw err;
+    throw new Error(`Cannot reach the geocoder: ${err.message}`);
+  }
+  if (!res.ok) throw new Error(`Geocoding failed (HTTP ${res.status}).`);
+  return res.json();
+}
+
+/** GeocodingProvider for the Mapbox Geocoding API (v5). */
+export function createMapboxGeocoder({ accessToken }) {
+  const root = "https://api.mapbox.com/geocoding/v5/mapbox.places";
+  const toResult = (f) => ({ id: f.id, name: f.text, address: f.place_name, lngLat: f.center });
+  return {
+    label: "Mapbox",
+    autocomplete: true,
+    search: async (query, { proximity, signal } = {}) => {
+      const near = proximity ? `&proximity=${proximity.map(n => n.toFixed(4)).join(",")}` : "";
+      const body = await fetchGeocoderJSON(`${root}/${encodeURIComponent(query)}.json?limit=5${near}&access_token=${accessToken}`, signal);
+      return (body.features || []).map(toResult);
+    },
+    reverse: async ([lng, lat], { signal } = {}) => {
+      const body = await fetchGeocoderJSON(`${root}/${lng},${lat}.json?limit=1&access_token=${accessToken}`, signal);
+      return body.features?.[0] ? toResult(body.features[0]) : null;
+    }
+  };
+}
+
+const PUBLIC_NOMINATIM_HOST = "nominatim.openstreetmap.org"; // its usage policy forbids autocomplete
+
+/** GeocodingProvider for the Nominatim API (`/search`, `/reverse`, jsonv2 format). */
+export function createNominatimGeocoder({ baseUrl }) {
+  const root = baseUrl.replace(/\/$/, "");
+  const toResult = (r) => ({
+    id: String(r.place_id),
+    name: r.name || r.display_name.split(",")[0],
+    address: r.display_name,
+    lngLat: [Number(r.lon), Number(r.lat)]
+  });
+  return {
+    label: "Nominatim",
+    autocomplete: new URL(root, "http://localhost").hostname !== PUBLIC_NOMINATIM_HOST,
+    search: async (query, { proximity, signal } = {}) => {
+      // Nominatim has no proximity bias; a generous viewbox around the map centre does the job without excluding results
+      const box = proximity ? `&viewbox=${[proximity[0] - 5, proximity[1] + 5, proximity[0] + 5, proximity[1] - 5].join(",")}` : "";
+      const body = await fetchGeocoderJSON(`${root}/search?format=jsonv2&limit=5&q=${encodeURIComponent(query)}${box}`, signal);
+      return (Array.isArray(body) ? body : []).map(toResult);
+    },
+    reverse: async ([lng, lat], { signal } = {}) => {
+      const body = await fetchGeocoderJSON(`${root}/reverse?format=jsonv2&lat=${lat}&lon=${lng}`, signal);
+      return body && !body.error ? toResult(body) : null;
+    }
+  };
+}
+
+/** Wraps a provider with an in-memory LRU cache; concurrent identical lookups share one request. */
+export function withGeocodeCache(provider, maxEntries) {
+  const cache = new Map();
+  const cached = (key, load) => {
+    if (cache.has(key)) {
+      const hit = cache.get(key);
+      cache.delete(key);
+      cache.set(key, hit); // refresh recency
+      return hit;
+    }
+    const promise = load().catch(err => { cache.delete(key); throw err; });
+    cache.set(key, promise);
+    if (cache.size > maxEntries) cache.delete(cache.keys().next().value);
+    return promise;
+  };
+  return {
+    label: provider.label,
+    autocomplete: provider.autocomplete,
+    // The signal is deliberately not forwarded: an aborted caller should not cancel a shared cached request
+    search: (query, { proximity, signal } = {}) => abortable(cached(`s:${foldText(query)}:${proximity?.map(n => n.toFixed(1)).join(",") ?? ""}`,
+      () => provider.search(query, { proximity })), signal),
+    reverse: (lngLat, { signal } = {}) => abortable(cached(`r:${lngLat.map(n => n.toFixed(5)).join(",")}`,
+      () => provider.reverse(lngLat)), signal)
+  };
+}
+
+function abortable(promise, signal) {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException("Aborted", "AbortError"));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+const geocoder = withGeocodeCache(
+  GEOCODING_CONFIG.provider === "nominatim"
+    ? createNominatimGeocoder({ baseUrl: GEOCODING_CONFIG.nominatimUrl })
+    : createMapboxGeocoder({ accessToken: MAPBOX_TOKEN }),
+  GEOCODING_CONFIG.cacheSize
+);
+
+function useDebouncedValue(value, delayMs) {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+  return debounced;
+}
+
+// ==== Routing ====
+/**
+ * @typedef {Object} RouteResult
+ * @property {number[][]} geometry // road geometry as [lng, lat] positions
+ * @property {{ distance: number, duration: number }[]} legs // metres / seconds, one per stop pair
+ */
+
+/**
+ * @typedef {Object} RoutingProvider
+ * @property {string} label
+ * @property {(mode: string) => boolean} supports
+ * @property {(coords: number[][], mode: string) => Promise<RouteResult>} route
+ */
+
+const TRAVEL_MODES = [
+  { key: "straight", label: "Straight line", phrase: "in a straight line" },
+  { key: "walk", label: "Walk", phrase: "on foot" },
+  { key: "drive", label: "Drive", phrase: "by car" },
+  { key: "transit", label: "Transit", phrase: "by transit" },
+];
+const travelPhrase = (mode) => TRAVEL_MODES.find(m => m.key === mode)?.phrase || mode;
+
+/** RoutingProvider for the OSRM HTTP API (`/route/v1/{profile}/{coords}`). */
+function createOsrmRouter({ baseUrl, profiles }) {
+  const root = baseUrl.replace(/\/$/, "");
+  return {
+    label: "OSRM",
+    supports: (mode) => Boolean(profiles[mode]),
+    route: async (coords, mode) => {
+      const profile = profiles[mode];
+      if (!profile) throw new Error(`The routing engine has no ${mode} profile.`);
+      const url = `${root}/route/v1/${profile}/${coords.map(c => c.join(",")).join(";")}?overview=full&geometries=geojson`;
+      let res;
+      try { res = await fetch(url); } catch (err) {
+        throw new Error(`Cannot reach the routing engine: ${err.message}`);
+      }
+      const body = await res.json().catch(() => null);
+      if (!res.ok || body?.code !== "Ok" || !body.routes?.length) {
+        throw new Error(body?.message || `Routing failed (HTTP ${res.status}).`);
+      }
+      const [best] = body.routes;
+      return {
+        geometry: best.geometry.coordinates,
+        legs: best.legs.map(l => ({ distance: l.distance, duration: l.duration }))
+      };
+    }
+  };
+}
+
+const router = ROUTING_CONFIG.baseUrl ? createOsrmRouter(ROUTING_CONFIG) : null;
+
+const routeKey = (mode, coords) => `${mode}:${coords.map(c => c.map(n => n.toFixed(5)).join(",")).join(";")}`;
+
+/** Consecutive stop pairs of a trip with their great-circle distance in metres. */
+function computeTripLegs(trip, pins) {
+  const stops = trip.pinIds.map(id => pins.find(p => p.id === id)).filter(Boolean);
+  return stops.slice(1).map((to, i) => ({ from: stops[i], to, distance: distanceMeters(stops[i].lngLat, to.lngLat) }));
+}
+
+const pathDistance = (stops) => stops.slice(1).reduce((sum, p, i) => sum + distanceMeters(stops[i].lngLat, p.lngLat), 0);
+
+/**
+ * Reorders stops to shorten the open path through them: nearest-neighbour construction
+ * (from every allowed start when none is fixed) refined with 2-opt segment reversals.
+ * `start` / `end` pin the first / last stop in place. Returns `stops` itself when the current
+ * order already honours them and is no longer than what the heuristic finds.
+ */
+function optimiseStopOrder(stops, { start, end } = {}) {
+  const nodes = [start, ...stops.filter(p => p !== start && p !== end), end].filter(Boolean);
+  const n = nodes.length;
+  if (n < 3) return nodes;
+  const d = nodes.map(a => nodes.map(b => distanceMeters(a.lngLat, b.lngLat)));
+  const length = (order) => order.slice(1).reduce((sum, j, i) => sum + d[order[i]][j], 0);
+  const endIdx = end ? n - 1 : -1;
+
+  const nearestNeighbour = (first) => {
+    const order = [first];
+    const left = new Set([...nodes.keys()].filter(i => i !== first && i !== endIdx));
+    while (left.size) {
+      const last = order[order.length - 1];
+      let best = -1;
+      left.forEach(j => { if (best === -1 || d[last][j] < d[last][best]) best = j; });
+      order.push(best);
+      left.delete(best);
+    }
+    if (end) order.push(endIdx);
+    return order;
+  };
+
+  const firsts = start ? [0] : [...nodes.keys()].filter(i => i !== endIdx);
+  let order = firsts.map(nearestNeighbour).reduce((a, b) => length(b) < length(a) ? b : a);
+
+  // 2-opt: reverse order[i..k] whenever that shortens the two edges around the segment
+  const lo = start ? 1 : 0;
+  const hi = end ? n - 2 : n - 1;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = lo; i < hi; i++) {
+      for (let k = i + 1; k <= hi; k++) {
+        const a = order[i - 1], b = order[i], c = order[k], e = order[k + 1];
+        const before = (a !== undefined ? d[a][b] : 0) + (e !== undefined ? d[c][e] : 0);
+        const after = (a !== undefined ? d[a][c] : 0) + (e !== undefined ? d[b][e] : 0);
+        if (after < before - 1e-6) {
+          order = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+          improved = true;
+        }
+      }
+    }
+  }
+  const optimised = order.map(i => nodes[i]);
+  // The heuristic can lose to a hand-made order; never suggest a longer path than the current one
+  const keepsEnds = (!start || stops[0] === start) && (!end || stops[stops.length - 1] === end);
+  return keepsEnds && pathDistance(stops) <= pathDistance(optimised) + 1e-6 ? stops : optimised;
+}
+
+function formatDistance(m) {
+  if (m < 1000) return `${Math.round(m)} m`;
+  return m < 100000 ? `${(m / 1000).toFixed(1)} km` : `${Math.round(m / 1000).toLocaleString()} km`;
+}
+
+function formatDuration(seconds) {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ${minutes % 60} min`;
+  return `${Math.floor(hours / 24)} d ${hours % 24} h`;
+}
+
+// ==== Itinerary ====
+/**
+ * @typedef {Object} StopTimes
+ * @property {string} [arrive] // local date-time (yyyy-mm-ddThh:mm), no time zone
+ * @property {string} [depart]
+ */
+
+const DAY_COLORS = ["#2563eb", "#f59e0b", "#16a34a", "#db2777", "#7c3aed", "#0891b2", "#dc2626", "#65a30d"];
+
+/**
+ * Trip stops with their times, grouped into consecutive days in pinIds order.
+ * A stop without times stays on the day of the stop before it (or the trip start).
+ */
+function itineraryDays(trip, pins) {
+  const days = [];
+  let day = trip.startDate || null;
+  trip.pinIds.forEach(id => {
+    const pin = pins.find(p => p.id === id);
+    if (!pin) return;
+    const { arrive = "", depart = "" } = trip.schedule?.[id] || {};
+    day = (arrive || depart).slice(0, 10) || day;
+    const last = days[days.length - 1];
+    const stop = { pin, arrive, depart };
+    if (last && last.day === day) last.stops.push(stop);
+    else days.push({ day, stops: [stop] });
+  });
+  const ordered = [...new Set(days.map(d => d.day).filter(Boolean))].sort();
+  return days.map(d => ({
+    ...d,
+    number: !d.day ? null
+      : trip.startDate ? Math.round((Date.parse(d.day) - Date.parse(trip.startDate)) / 86400000) + 1
+      : ordered.indexOf(d.day) + 1,
+    color: d.day ? DAY_COLORS[ordered.indexOf(d.day) % DAY_COLORS.length] : null
+  }));
+}
+
+/** Scheduling problems worth flagging: impossible times, times that contradict the stop order, dates outside the trip. */
+function itineraryWarnings(trip, pins) {
+  const { startDate, endDate } = trip;
+  const warnings = [];
+  if (startDate && endDate && endDate < startDate) warnings.push({ pinId: null, message: "The trip ends before it starts." });
+  const outside = (date) => (startDate && date < startDate) || (endDate && date > endDate);
+  let prev = null; // last stop with a time, and when we leave it
+  trip.pinIds.forEach(id => {
+    const pin = pins.find(p => p.id === id);
+    if (!pin) return;
+    const { arrive, depart } = trip.schedule?.[id] || {};
+    const first = arrive || depart;
+    if (arrive && depart && depart < arrive) {
+      warnings.push({ pinId: id, message: `${pin.title}: departure is before arrival.` });
+    }
+    if (prev && first && first < prev.leave) {
+      warnings.push({ pinId: id, message: `${pin.title} is scheduled before leaving ${prev.pin.title}; check the stop order.` });
+    }
+    if ([arrive, depart].some(t => t && outside(t.slice(0, 10)))) {
+      warnings.push({ pinId: id, message: `${pin.title} is scheduled outside the trip dates.` });
+    }
+    if (pin.date && outside(pin.date)) {
+      warnings.push({ pinId: id, message: `${pin.title} is dated ${pin.date}, outside the trip dates.` });
+    }
+    if (first) prev = { pin, leave: depart || arrive };
+  });
+  return warnings;
+}
+
+/**
+ * The trip line as one feature per leg, coloured by the day of the stop it leaves from.
+ * A routed geometry is cut at the vertices closest to each stop.
+ */
+function tripLineFeatures(coords, colors, routed, properties = {}) {
+  const pieces = routed ? splitAtStops(routed, coords) : null;
+  return {
+    type: "FeatureCollection",
+    features: coords.slice(1).map((to, i) => ({
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: pieces?.[i]?.length > 1 ? pieces[i] : [coords[i], to] },
+      properties: colors[i] ? { ...properties, color: colors[i] } : properties
+    }))
+  };
+}
+
+function splitAtStops(line, stops) {
+  const cuts = [0];
+  stops.slice(1, -1).forEach(stop => {
+    let best = cuts[cuts.length - 1];
+    for (let i = best + 1; i < line.length; i++) {
+      if (distanceMeters(line[i], stop) < distanceMeters(line[best], stop)) best = i;
+    }
+    cuts.push(best);
+  });
+  cuts.push(line.length - 1);
+  return cuts.slice(1).map((end, i) => line.slice(cuts[i], end + 1));
+}
+
+const formatDay = (day) => new Date(`${day}T00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" });
+
+/**
+ * iCalendar (RFC 5545) export of the scheduled stops. Times are written as floating local
+ * time, the way they were entered; stops with only a day become all-day events.
+ */
+function tripToICS(trip, pins, now = new Date()) {
+  const text = (s) => String(s || "").replace(/\\/g, "\\\\").replace(/\r?\n/g, "\\n").replace(/([,;])/g, "\\$1");
+  const localTime = (t) => `${t.replace(/[-:]/g, "")}00`;
+  const date = (d) => d.replace(/-/g, "");
+  const nextDay = (d) => new Date(Date.parse(d) + 86400000).toISOString().slice(0, 10);
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//GlobeAtlas//Itinerary//EN", "CALSCALE:GREGORIAN", `X-WR-CALNAME:${text(trip.name)}`];
+  itineraryDays(trip, pins).forEach(({ day, stops }) => {
+    if (!day) return;
+    stops.forEach(({ pin, arrive, depart }) => {
+      const start = arrive || depart;
+      lines.push("BEGIN:VEVENT", `UID:${trip.id}-${pin.id}@globeatlas`, `DTSTAMP:${stamp}`);
+      if (start) {
+        lines.push(`DTSTART:${localTime(start)}`);
+        if (depart > start) lines.push(`DTEND:${localTime(depart)}`);
+      } else {
+        lines.push(`DTSTART;VALUE=DATE:${date(day)}`, `DTEND;VALUE=DATE:${date(nextDay(day))}`);
+      }
+      lines.push(
+        `SUMMARY:${text(pin.title)}`,
+        `LOCATION:${text(pin.address || pin.title)}`,
+        `GEO:${pin.lngLat[1]};${pin.lngLat[0]}`,
+        ...(pin.description ? [`DESCRIPTION:${text(pin.description)}`] : []),
+        "END:VEVENT"
+      );
+    });
+  });
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICSLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Folds a content line into chunks of at most 75 octets of UTF-8, continuation lines starting
+ * with a space (RFC 5545 3.1). Breaks fall between characters, never inside one.
+ */
+export function foldICSLine(line) {
+  const encoder = new TextEncoder();
+  const chunks = [];
+  let chunk = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its 75 octets
+    if (bytes + size > (chunks.length ? 74 : 75)) {
+      chunks.push(chunk);
+      chunk = "";
+      bytes = 0;
+    }
+    chunk += char;
+    bytes += size;
+  }
+  return [...chunks, chunk].join("\r\n ");
+}
+
+// ==== Budgets & expenses ====
+// Expenses live on pins and roll up into every trip that includes the pin. Amounts are converted
+// with the atlas's own rate table, so totals work offline; an amount in a currency without a
+// rate is reported on its own instead of being guessed.
+/**
+ * @typedef {Object} Expense
+ * @property {string} id
+ * @property {number} amount
+ * @property {string} currency // ISO 4217 code, e.g. "EUR"
+ * @property {string} category // key into EXPENSE_CATEGORIES
+ * @property {string} [note]
+ */
+
+/**
+ * @typedef {Object} TripBudget
+ * @property {number} amount
+ * @property {string} currency
+ */
+
+/**
+ * @typedef {Object} Currency
+ * @property {string} code // ISO 4217, stable id
+ * @property {number} [rate] // value of one unit in the home currency; unset or 0 = not converted
+ * @property {boolean} [home] // the currency every rate is quoted in
+ */
+
+const EXPENSE_CATEGORIES = [
+  { key: "lodging", label: "Lodging", icon: "🛏️" },
+  { key: "transport", label: "Transport", icon: "🚆" },
+  { key: "food", label: "Food & drink", icon: "🍽️" },
+  { key: "activities", label: "Activities", icon: "🎟️" },
+  { key: "shopping", label: "Shopping", icon: "🛍️" },
+  { key: "other", label: "Other", icon: "💸" },
+];
+const DEFAULT_CURRENCIES = [{ code: "EUR", rate: 1, home: true }];
+
+const expenseCategoryOf = (key) => EXPENSE_CATEGORIES.find(c => c.key === key) || EXPENSE_CATEGORIES[EXPENSE_CATEGORIES.length - 1];
+const isCurrencyCode = (code) => /^[A-Z]{3}$/.test(code);
+const homeCurrency = (currencies) => currencies.find(c => c.home) || currencies[0] || DEFAULT_CURRENCIES[0];
+
+/** `amount` in `from` expressed in `to`, or null when either rate is missing. */
+function convertAmount(amount, from, to, currencies) {
+  if (from === to) return amount;
+  const rateOf = (code) => {
+    const currency = currencies.find(c => c.code === code);
+    return currency?.home ? 1 : currency?.rate;
+  };
+  const [a, b] = [rateOf(from), rateOf(to)];
+  return a > 0 && b > 0 ? amount * a / b : null;
+}
+
+function formatMoney(amount, currency) {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/** Ops that make `code` the home currency and re-quote every rate in it. */
+function homeCurrencyOps(currencies, code) {
+  const target = currencies.find(c => c.code === code);
+  const base = target && convertAmount(1, code, homeCurrency(currencies).code, currencies);
+  if (!base || target.home) return [];
+  return currencies.map(c => {
+    const rate = convertAmount(1, c.code, homeCurrency(currencies).code, currencies);
+    return {
+      type: "currency/update",
+      code: c.code,
+      before: { rate: c.rate, home: c.home },
+      after: { rate: rate === null ? undefined : rate / base, home: c.code === code || undefined }
+    };
+  });
+}
+
+const usedCurrencies = (pins, trips) =>
+  new Set([...pins.flatMap(p => (p.expenses || []).map(e => e.currency)), ...trips.map(t => t.budget?.currency).filter(Boolean)]);
+
+// Appends a currency for every code `pins` and `trips` use that `currencies` lacks. Rates come
+// from `source` (e.g. the table of a shared trip) when it can quote them in our home currency.
+function withMissingCurrencies(currencies, pins, trips, source = []) {
+  const home = homeCurrency(currencies).code;
+  const next = [...currencies];
+  usedCurrencies(pins, trips).forEach(code => {
+    if (next.some(c => c.code === code)) return;
+    const rate = convertAmount(1, code, home, source);
+    next.push(rate ? { code, rate } : { code });
+  });
+  return next;
+}
+
+/** Valid expenses from untrusted input (imports, share links); ids are kept when present. */
+function normalizeExpenses(list) {
+  return (Array.isArray(list) ? list : []).flatMap(e => {
+    const amount = Number(e?.amount);
+    const currency = String(e?.currency || "").toUpperCase();
+    if (!Number.isFinite(amount) || !isCurrencyCode(currency)) return [];
+    return [{
+      id: e.id ? String(e.id) : crypto.randomUUID(),
+      amount,
+      currency,
+      category: expenseCategoryOf(e.category).key,
+      ...(e.note ? { note: String(e.note) } : {})
+    }];
+  });
+}
+
+function normalizeBudget(budget) {
+  const amount = Number(budget?.amount);
+  const currency = String(budget?.currency || "").toUpperCase();
+  return Number.isFinite(amount) && amount >= 0 && isCurrencyCode(currency) ? { amount, currency } : undefined;
+}
+
+/**
+ * What a trip has spent, in its budget currency (or the home currency), by expense category
+ * and by stop in pinIds order. Amounts that cannot be converted are summed per currency.
+ */
+function tripExpenseSummary(trip, pins, currencies) {
+  const currency = trip.budget?.currency || homeCurrency(currencies).code;
+  const byCategory = {};
+  const unconverted = {};
+  const stops = trip.pinIds.map(id => pins.find(p => p.id === id)).filter(p => p?.expenses?.length).map(pin => {
+    let total = 0;
+    pin.expenses.forEach(e => {
+      const value = convertAmount(e.amount, e.currency, currency, currencies);
+      if (value === null) {
+        unconverted[e.currency] = (unconverted[e.currency] || 0) + e.amount;
+        return;
+      }
+      const key = expenseCategoryOf(e.category).key;
+      byCategory[key] = (byCategory[key] || 0) + value;
+      total += value;
+    });
+    return { pin, total };
+  });
+  return {
+    currency,
+    budget: trip.budget?.amount ?? null,
+    spent: stops.reduce((sum, s) => sum + s.total, 0),
+    byStop: stops,
+    byCategory: EXPENSE_CATEGORIES.filter(c => byCategory[c.key]).map(c => ({ ...c, total: byCategory[c.key] })),
+    unconverted: Object.entries(unconverted).map(([code, amount]) => ({ currency: code, amount }))
+  };
+}
+
+// Quoted where needed; text that a spreadsheet would run as a formula is defused with a quote
+function csvCell(value) {
+  let text = String(value ?? "");
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/** One CSV row per expense on `pins`, with the amount also converted to `currency`. */
+function expensesToCSV(pins, trips, currencies, currency) {
+  const round = (n) => Math.round(n * 100) / 100;
+  const header = ["Place", "Date", "Trips", "Category", "Note", "Amount", "Currency", `Amount (${currency})`];
+  const rows = pins.flatMap(pin => (pin.expenses || []).map(e => {
+    const converted = convertAmount(e.amount, e.currency, currency, currencies);
+    return [
+      pin.title, pin.date, trips.filter(t => t.pinIds.includes(pin.id)).map(t => t.name).join("; "),
+      expenseCategoryOf(e.category).label, e.note || "", round(e.amount), e.currency, converted === null ? "" : round(converted)
+    ];
+  }));
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// ==== Trip report ====
+// A report is a standalone HTML page: the same document is previewed, printed and exported.
+// Its map is a snapshot from an off-screen map that draws only the trip, at an exact pixel size.
+const SNAPSHOT_SIZES = [
+  { key: "preview", label: "1200 × 800", width: 1200, height: 800 },
+  { key: "large", label: "2400 × 1600", width: 2400, height: 1600 },
+  { key: "poster", label: "3600 × 2400", width: 3600, height: 2400 },
+];
+const SNAPSHOT_TIMEOUT_MS = 30000;
+
+/**
+ * Renders a trip's line and numbered stops over the given base style and resolves with a
+ * canvas of exactly `width` x `height` pixels, with the style's attribution in the corner.
+ */
+async function renderTripSnapshot({ trip, pins, routed, style, width, height }) {
+  if (mapEngine.unavailable) throw new Error(mapEngine.unavailable);
+  const coords = trip.pinIds.map(id => pins.find(p => p.id === id)?.lngLat).filter(Boolean);
+  if (!coords.length) throw new Error("This trip has no stops to show on a map.");
+  const gl = await mapEngine.load();
+
+  const ratio = window.devicePixelRatio || 1;
+  const container = document.createElement("div");
+  // Laid out but off-screen, so the canvas gets exactly the requested device pixels
+  Object.assign(container.style, { position: "fixed", left: "-100000px", top: "0", width: `${width / ratio}px`, height: `${height / ratio}px` });
+  document.body.appendChild(container);
+  let map = null;
+  try {
+    map = new gl.Map({
+      ...mapEngine.mapOptions,
+      container,
+      style,
+      bounds: coords.reduce((b, c) => b.extend(c), new gl.LngLatBounds(coords[0], coords[0])),
+      fitBoundsOptions: { padding: Math.round(Math.min(width, height) / ratio / 10), maxZoom: 15 },
+      interactive: false,
+      fadeDuration: 0,
+      preserveDrawingBuffer: true // keeps the frame readable after it was drawn
+    });
+    await new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("The map took too long to load for the snapshot.")), SNAPSHOT_TIMEOUT_MS);
+      let styled = false;
+      map.on("error", (e) => {
+        if (styled) return; // a missing tile still leaves a usable map
+        clearTimeout(timer);
+        reject(new Error(e.error?.message || "The map style could not be loaded."));
+      });
+      map.on("style.load", () => {
+        styled = true;
+        mapEngine.onStyleLoad(map);
+        addTripLayers(map);
+        addTripStopLayers(map);
+        // There are no pins underneath, so the badges sit on the stops themselves
+        map.setPaintProperty(TRIP_LAYERS.stops, "circle-translate", [0, 0]);
+        map.setPaintProperty(TRIP_LAYERS.stopNumbers, "text-translate", [0, 0]);
+        const color = trip.color || DEFAULT_TRIP_COLOR;
+        map.getSource(TRIP_SOURCE).setData(tripLineFeatures(coords, [], routed, { tripId: trip.id, color, selected: true }));
+        map.getSource(TRIP_STOP_SOURCE).setData({
+          type: "FeatureCollection",
+          features: coords.map((c, i) => ({ type: "Feature", geometry: { type: "Point", coordinates: c }, properties: { color, number: i + 1 } }))
+        });
+        map.once("idle", () => { clearTimeout(timer); resolve(); });
+      });
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    ctx.drawImage(map.getCanvas(), 0, 0, width, height);
+    const attribution = container.querySelector(".mapboxgl-ctrl-attrib-inner, .maplibregl-ctrl-attrib-inner")?.textContent.trim();
+    if (attribution) {
+      const size = Math.max(11, Math.round(height / 70));
+      ctx.font = `${size}px sans-serif`;
+      const textWidth = Math.min(ctx.measureText(attribution).width, width - size);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+      ctx.fillRect(width - textWidth - size, height - size * 1.6, textWidth + size, size * 1.6);
+      ctx.fillStyle = "#374151";
+      ctx.fillText(attribution, width - textWidth - size / 2, height - size * 0.5, textWidth);
+    }
+    return canvas;
+  } finally {
+    map?.remove();
+    container.remove();
+  }
+}
+
+/** Everything a trip report shows, stops in pinIds order. `route` is the RouteResult, when routed. */
+function tripReportData(trip, pins, categories, route) {
+  const stops = trip.pinIds.map(id => pins.find(p => p.id === id)).filter(Boolean);
+  const routedLegs = route?.legs.length === stops.length - 1 ? route.legs : null;
+  return {
+    name: trip.name,
+    dates: [trip.startDate, trip.endDate].filter(Boolean),
+    mode: trip.travelMode || "straight",
+    distance: pathDistance(stops),
+    routed: routedLegs && routedLegs.reduce((acc, l) => ({ distance: acc.distance + l.distance, duration: acc.duration + l.duration }), { distance: 0, duration: 0 }),
+    stops: stops.map((pin, i) => ({
+      number: i + 1,
+      title: pin.title,
+      category: categoryOf(categories, pin.category),
+      date: pin.date,
+      address: pin.address || "",
+      description: pin.description,
+      leg: i ? { distance: distanceMeters(stops[i - 1].lngLat, pin.lngLat), routed: routedLegs?.[i - 1] || null } : null
+    }))
+  };
+}
+
+function reportSummary(report) {
+  return [
+    report.dates.map(formatDay).join(" – "),
+    `${report.stops.length} ${report.stops.length === 1 ? "stop" : "stops"}`,
+    report.stops.length > 1 && `${formatDistance(report.distance)} ${travelPhrase("straight")}`,
+    report.routed && `${formatDistance(report.routed.distance)} ${travelPhrase(report.mode)}, ${formatDuration(report.routed.duration)}`
+  ].filter(Boolean).join(" · ");
+}
+
+const reportLeg = (leg, mode) => !leg ? "Start"
+  : `${formatDistance(leg.distance)}${leg.routed ? ` (${formatDistance(leg.routed.distance)} ${travelPhrase(mode)}, ${formatDuration(leg.routed.duration)})` : ""}`;
+
+/** Markdown version of a report; the map is linked as `imageName`, downloaded alongside. */
+function tripReportMarkdown(report, imageName) {
+  const lines = [`# ${report.name}`, "", reportSummary(report), "", `![Route map of ${report.name}](${encodeURI(imageName)})`, ""];
+  report.stops.forEach(s => {
+    lines.push(
+      `## ${s.number}. ${s.title}`, "",
+      `${s.category.icon} ${s.category.label} · ${formatDay(s.date)} · ${s.leg ? `${reportLeg(s.leg, report.mode)} from the previous stop` : "Start"}`, ""
+    );
+    if (s.address) lines.push(`*${s.address}*`, "");
+    if (s.description) lines.push(s.description, "");
+  });
+  return lines.join("\n");
+}
+
+/** Printable, self-contained HTML page of a report; `imageUrl` is usually a PNG data URL. */
+function tripReportHTML(report, imageUrl) {
+  const rows = report.stops.map(s => `
+      <tr>
+        <td class="num">${s.number}</td>
+        <td><strong>${escapeHtml(s.title)}</strong>${s.address ? `<div class="muted">${escapeHtml(s.address)}</div>` : ""}${s.description ? `<div>${escapeHtml(s.description)}</div>` : ""}</td>
+        <td>${escapeHtml(s.category.icon)} ${escapeHtml(s.category.label)}</td>
+        <td class="nowrap">${escapeHtml(formatDay(s.date))}</td>
+        <td class="nowrap">${escapeHtml(reportLeg(s.leg, report.mode))}</td>
+      </tr>`).join("");
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(report.name)}</title>
+  <style>
+    body { font: 14px/1.45 system-ui, sans-serif; color: #111827; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }
+    h1 { font-size: 1.6rem; margin: 0 0 .25rem; }
+    .muted { color: #6b7280; font-size: .85em; }
+    img { display: block; width: 100%; height: auto; border-radius: 8px; margin: 1rem 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; vertical-align: top; padding: .4rem .5rem; border-bottom: 1px solid #e5e7eb; }
+    th { font-size: .75em; text-transform: uppercase; letter-spacing: .03em; color: #6b7280; }
+    .num { width: 2rem; font-weight: 600; }
+    .nowrap { white-space: nowrap; }
+    @page { margin: 15mm; }
+    @media print { body { max-width: none; margin: 0; padding: 0; } img, tr { break-inside: avoid; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(report.name)}</h1>
+  <div class="muted">${escapeHtml(reportSummary(report))}</div>
+  ${imageUrl ? `<img src="${escapeHtml(imageUrl)}" alt="Route map of ${escapeHtml(report.name)}">` : ""}
+  <table>
+    <thead><tr><th>#</th><th>Stop</th><th>Category</th><th>Date</th><th>From previous</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+// ==== Playback ====
+// Playback is driven by two pure functions so it can be stepped frame by frame without timers:
+// playbackFrame(timeline, t) says where the camera is at time t, and advancePlayback() moves
+// a { t, playing, speed } state forward by one frame's worth of milliseconds.
+const PLAYBACK_CONFIG = { legMs: 4000, dwellMs: 1800, stopZoom: 13 };
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+/** Alternating "stop" (dwell) and "leg" (travel) segments for the stops in order; legs follow the routed geometry when given. */
+export function buildPlaybackTimeline(stops, routed, { legMs, dwellMs, stopZoom } = PLAYBACK_CONFIG) {
+  const coords = stops.map(p => p.lngLat);
+  const pieces = routed ? splitAtStops(routed, coords) : null;
+  const legs = coords.slice(1).map((to, i) => {
+    const path = pieces?.[i]?.length > 1 ? pieces[i] : [coords[i], to];
+    const cumulative = [0];
+    path.slice(1).forEach((c, j) => cumulative.push(cumulative[j] + distanceMeters(path[j], c)));
+    return { path, cumulative, length: cumulative[cumulative.length - 1] };
+  });
+  const segments = [];
+  let t = 0;
+  stops.forEach((stop, index) => {
+    segments.push({ kind: "stop", index, start: t, end: (t += dwellMs) });
+    if (index < legs.length) segments.push({ kind: "leg", index, start: t, end: (t += legMs) });
+  });
+  return { stops, legs, segments, stopZoom, duration: t };
+}
+
+/**
+ * Camera and drawing state at time t (ms): the stop reached so far, the camera centre and
+ * zoom (pulled out mid-leg in proportion to its length), and the part of the route drawn.
+ */
+export function playbackFrame(timeline, t) {
+  const { stops, legs, segments, stopZoom, duration } = timeline;
+  const time = Math.min(Math.max(t, 0), duration);
+  const segment = segments.find(s => time < s.end) || segments[segments.length - 1];
+  const drawn = legs.slice(0, segment.index).flatMap(l => l.path);
+  const base = { time, progress: duration ? time / duration : 1, stopIndex: segment.index, stop: stops[segment.index] };
+  if (segment.kind === "stop") {
+    return { ...base, atStop: true, center: stops[segment.index].lngLat, zoom: stopZoom, drawn };
+  }
+  const leg = legs[segment.index];
+  const x = (time - segment.start) / (segment.end - segment.start);
+  const eased = x < 0.5 ? 2 * x * x : 1 - (-2 * x + 2) ** 2 / 2; // ease in-out
+  const { point, head } = pointAlongLeg(leg, eased * leg.length);
+  const dip = Math.min(8, Math.max(0, Math.log2(leg.length / 2000)));
+  return { ...base, atStop: false, center: point, zoom: stopZoom - dip * Math.sin(Math.PI * eased), drawn: [...drawn, ...head] };
+}
+
+function pointAlongLeg({ path, cumulative }, distance) {
+  let j = 1;
+  while (j < path.length - 1 && cumulative[j] < distance) j++;
+  const span = cumulative[j] - cumulative[j - 1];
+  const f = span ? Math.min(1, Math.max(0, (distance - cumulative[j - 1]) / span)) : 1;
+  const [a, b] = [path[j - 1], path[j]];
+  const point = [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f];
+  return { point, head: [...path.slice(0, j), point] };
+}
+
+/** Advances playback by one frame of `elapsedMs` real time; stops playing at the end. */
+export function advancePlayback(state, elapsedMs, timeline) {
+  if (!state.playing) return state;
+  const t = Math.min(timeline.duration, state.t + elapsedMs * state.speed);
+  return { ...state, t, playing: t < timeline.duration };
+}
+
+// ==== Import / export (GeoJSON, GPX, KML) ====
+function serializeAtlas(format, pins, trips) {
+  switch (format) {
+    case "gpx": return { text: toGPX(pins, trips), mime: "application/gpx+xml", ext: "gpx" };
+    case "kml": return { text: toKML(pins, trips), mime: "application/vnd.google-earth.kml+xml", ext: "kml" };
+    default: return { text: JSON.stringify(toGeoJSON(pins, trips), null, 2), mime: "application/geo+json", ext: "geojson" };
+  }
+}
+
+function tripCoords(trip, pins) {
+  return trip.pinIds.map(id => pins.find(p => p.id === id)?.lngLat).filter(Boolean);
+}
+
+// Pins become Point features; trips become LineStrings whose `pinIds` keep the stop order.
+function toGeoJSON(pins, trips) {
+  return {
+    type: "FeatureCollection",
+    features: [
+      ...pins.map(p => ({
+        type: "Feature",
+        id: p.id,
+        geometry: { type: "Point", coordinates: p.lngLat },
+        properties: {
+          kind: "pin", id: p.id, title: p.title, description: p.description, category: p.category, date: p.date, address: p.address,
+          status: p.status, rating: p.rating, tags: p.tags, links: p.links, expenses: p.expenses
+        }
+      })),
+      ...trips.map(t => {
+        const coords = tripCoords(t, pins);
+        return {
+          type: "Feature",
+          id: t.id,
+          // A LineString needs two positions; shorter trips are kept with a null geometry
+          geometry: coords.length >= 2 ? { type: "LineString", coordinates: coords } : null,
+          properties: {
+            kind: "trip", id: t.id, name: t.name, pinIds: t.pinIds, color: t.color, travelMode: t.travelMode,
+            startDate: t.startDate, endDate: t.endDate, schedule: t.schedule, budget: t.budget
+          }
+        };
+      })
+    ]
+  };
+}
+
+function toGPX(pins, trips) {
+  const pt = (tag, p) => `<${tag} lat="${p.lngLat[1]}" lon="${p.lngLat[0]}">` +
+    (p.date ? `<time>${escapeHtml(p.date)}T00:00:00Z</time>` : "") +
+    `<name>${escapeHtml(p.title)}</name>` +
+    (p.description ? `<desc>${escapeHtml(p.description)}</desc>` : "") +
+    `<type>${escapeHtml(p.category)}</type></${tag}>`;
+  const routes = trips.map(t => {
+    const stops = t.pinIds.map(id => pins.find(p => p.id === id)).filter(Boolean);
+    return `  <rte><name>${escapeHtml(t.name)}</name>${stops.map(p => pt("rtept", p)).join("")}</rte>`;
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="GlobeAtlas" xmlns="http://www.topografix.com/GPX/1/1">`,
+    ...pins.map(p => "  " + pt("wpt", p)),
+    ...routes,
+    `</gpx>`
+  ].join("\n");
+}
+
+function toKML(pins, trips) {
+  const data = (fields) => `<ExtendedData>${Object.entries(fields)
+    .map(([k, v]) => `<Data name="${k}"><value>${escapeHtml(String(v))}</value></Data>`).join("")}</ExtendedData>`;
+  const placemarks = [
+    ...pins.map(p => `  <Placemark><name>${escapeHtml(p.title)}</name>` +
+      (p.address ? `<address>${escapeHtml(p.address)}</address>` : "") +
+      `<description>${escapeHtml(p.description)}</description>` +
+      data({ id: p.id, category: p.category, date: p.date }) +
+      `<Point><coordinates>${p.lngLat.join(",")}</coordinates></Point></Placemark>`),
+    ...trips.map(t => {
+      const coords = tripCoords(t, pins);
+      return `  <Placemark><name>${escapeHtml(t.name)}</name>` + data({ id: t.id, pinIds: t.pinIds.join(",") }) +
+        (coords.length >= 2 ? `<LineString><coordinates>${coords.map(c => c.join(",")).join(" ")}</coordinates></LineString>` : "") +
+        `</Placemark>`;
+    })
+  ];
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>GlobeAtlas</name>`,
+    ...placemarks,
+    `</Document></kml>`
+  ].join("\n");
+}
+
+/** Parses a GeoJSON, GPX, KML or shared trip file into `{ format, pins, trips, categories?, currencies? }` (not yet merged). */
+function parseAtlasFile(text, fileName = "") {
+  const format = detectFormat(text, fileName);
+  if (format === "share") {
+    let payload;
+    try { payload = JSON.parse(text); } catch { throw new Error("The file is not valid JSON."); }
+    return { format, ...readSharePayload(payload) };
+  }
+  const { pins, lines } = format === "gpx" ? readGPX(text) : format === "kml" ? readKML(text) : readGeoJSON(text);
+  const trips = lines.map(line => buildImportedTrip(line, pins)).filter(t => t.pinIds.length > 0);
+  if (!pins.length && !trips.length) throw new Error("No places or routes found in this file.");
+  return { format, pins, trips };
+}
+
+function detectFormat(text, fileName) {
+  if (fileName.toLowerCase().endsWith(SHARE_FILE_SUFFIX)) return "share";
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "geojson" || ext === "json") return "geojson";
+  if (ext === "gpx" || ext === "kml") return ext;
+  const head = text.trimStart();
+  if (head.startsWith("{")) return "geojson";
+  if (/<gpx[\s>]/.test(head)) return "gpx";
+  if (/<kml[\s>]/.test(head)) return "kml";
+  throw new Error("Unrecognised file format. Use GeoJSON, GPX or KML.");
+}
+
+function readGeoJSON(text) {
+  let data;
+  try { data = JSON.parse(text); } catch { throw new Error("The file is not valid JSON."); }
+  const features = data?.type === "FeatureCollection" ? data.features || []
+    : data?.type === "Feature" ? [data] : [];
+  const pins = [];
+  const lines = [];
+  features.forEach(f => {
+    const props = f.properties || {};
+    const g = f.geometry;
+    if (g?.type === "Point") {
+      const pin = normalizeImportedPin({ ...props, id: props.id ?? f.id, title: props.title ?? props.name, lngLat: g.coordinates });
+      if (pin) pins.push(pin);
+    } else if (g?.type === "LineString" || g?.type === "MultiLineString" || (!g && Array.isArray(props.pinIds))) {
+      const coords = g?.type === "MultiLineString" ? g.coordinates.flat() : g?.coordinates || [];
+      lines.push({ ...props, id: props.id ?? f.id, name: props.name ?? props.title, points: coords.map(c => ({ lngLat: c })) });
+    }
+  });
+  return { pins, lines };
+}
+
+function readGPX(text) {
+  const doc = parseXml(text);
+  const point = (el) => ({
+    lngLat: [parseFloat(el.getAttribute("lon")), parseFloat(el.getAttribute("lat"))],
+    title: childText(el, "name"),
+    description: childText(el, "desc"),
+    category: childText(el, "type"),
+    date: childText(el, "time")
+  });
+  const pins = byTag(doc, "wpt").map(el => normalizeImportedPin(point(el))).filter(Boolean);
+  const lines = [
+    ...byTag(doc, "rte").map(el => ({ name: childText(el, "name"), points: byTag(el, "rtept").map(point) })),
+    ...byTag(doc, "trk").map(el => ({ name: childText(el, "name"), points: byTag(el, "trkpt").map(point) }))
+  ];
+  return { pins, lines };
+}
+
+function readKML(text) {
+  const doc = parseXml(text);
+  const pins = [];
+  const lines = [];
+  byTag(doc, "Placemark").forEach(pm => {
+    const extended = Object.fromEntries(byTag(pm, "Data").map(d => [d.getAttribute("name"), childText(d, "value")]));
+    const name = childText(pm, "name");
+    const point = byTag(pm, "Point")[0];
+    const line = byTag(pm, "LineString")[0];
+    if (point) {
+      const pin = normalizeImportedPin({ ...extended, title: name, description: childText(pm, "description"), address: childText(pm, "address"), lngLat: parseKmlCoords(childText(point, "coordinates"))[0] });
+      if (pin) pins.push(pin);
+    } else if (line || extended.pinIds) {
+      lines.push({
+        id: extended.id,
+        name,
+        pinIds: extended.pinIds ? extended.pinIds.split(",").filter(Boolean) : undefined,
+        points: line ? parseKmlCoords(childText(line, "coordinates")).map(c => ({ lngLat: c })) : []
+      });
+    }
+  });
+  return { pins, lines };
+}
+
+function parseXml(text) {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("The file is not valid XML.");
+  return doc;
+}
+
+const byTag = (el, tag) => Array.from(el.getElementsByTagName(tag));
+const childText = (el, tag) => byTag(el, tag)[0]?.textContent?.trim() || "";
+const parseKmlCoords = (text) => text.split(/\s+/).filter(Boolean).map(t => t.split(",").slice(0, 2).map(Number));
+
+// Returns a valid Pin, or null when the coordinates are unusable.
+function normalizeImportedPin({ id, title, description, category, date, address, lngLat, status, rating, tags, links, expenses }) {
+  const [lng, lat] = (lngLat || []).map(Number);
+  if (!Number.isFinite(lng) || !Number.isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  const day = typeof date === "string" && /^\d{4}-\d{2}-\d{2}/.test(date) ? date.slice(0, 10) : new Date().toISOString().slice(0, 10);
+  const stars = Math.round(Number(rating));
+  const tagList = normalizeTags(Array.isArray(tags) ? tags : typeof tags === "string" ? tags.split(",") : []);
+  const linkList = (Array.isArray(links) ? links : [])
+    .filter(l => l && isWebUrl(String(l.url)))
+    .map(l => l.label ? { label: String(l.label), url: String(l.url) } : { url: String(l.url) });
+  const expenseList = normalizeExpenses(expenses);
+  return {
+    id: id ? String(id) : crypto.randomUUID(),
+    title: title ? String(title) : "Untitled place",
+    description: description ? String(description) : "",
+    category: category ? String(category) : "other", // unknown keys become new categories on import
+    date: day,
+    lngLat: [lng, lat],
+    status: statusOf(status).key,
+    ...(address ? { address: String(address) } : {}),
+    ...(stars >= 1 && stars <= MAX_RATING ? { rating: stars } : {}),
+    ...(tagList.length ? { tags: tagList } : {}),
+    ...(linkList.length ? { links: linkList } : {}),
+    ...(expenseList.length ? { expenses: expenseList } : {})
+  };
+}
+
+// The optional trip fields a file may carry, keeping only well-formed values.
+function importedTripExtras({ color, travelMode, startDate, endDate, schedule, budget }) {
+  const isDay = (v) => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+  const isTime = (v) => typeof v === "string" && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(v);
+  const stopTimes = Object.entries(schedule && typeof schedule === "object" ? schedule : {})
+    .map(([pid, t]) => [pid, Object.fromEntries(["arrive", "depart"].filter(k => isTime(t?.[k])).map(k => [k, t[k]]))])
+    .filter(([, t]) => Object.keys(t).length);
+  return {
+    ...(typeof color === "string" && /^#[0-9a-f]{6}$/i.test(color) ? { color } : {}),
+    ...(travelMode !== "straight" && TRAVEL_MODES.some(m => m.key === travelMode) ? { travelMode } : {}),
+    ...(isDay(startDate) ? { startDate } : {}),
+    ...(isDay(endDate) ? { endDate } : {}),
+    ...(stopTimes.length ? { schedule: Object.fromEntries(stopTimes) } : {}),
+    ...(normalizeBudget(budget) ? { budget: normalizeBudget(budget) } : {})
+  };
+}
+
+// Resolves a route to pin ids: by explicit `pinIds` when they all exist, otherwise by
+// matching each point to an imported pin (creating new pins for unmatched points).
+function buildImportedTrip({ id, name, pinIds, points, ...fields }, pins) {
+  const tripName = name || "Imported trip";
+  const extras = importedTripExtras(fields);
+  if (Array.isArray(pinIds) && pinIds.length && pinIds.every(pid => pins.some(p => p.id === pid))) {
+    return { id: id ? String(id) : crypto.randomUUID(), name: tripName, pinIds: pinIds.map(String), ...extras };
+  }
+  const ids = samplePoints(points, MAX_IMPORTED_TRIP_STOPS).map((pt, i) => {
+    const near = pins.find(p => distanceMeters(p.lngLat, pt.lngLat) < 5);
+    if (near) return near.id;
+    const pin = normalizeImportedPin({ ...pt, title: pt.title || `${tripName} – stop ${i + 1}` });
+    if (!pin) return null;
+    pins.push(pin);
+    return pin.id;
+  }).filter(Boolean);
+  return { id: id ? String(id) : crypto.randomUUID(), name: tripName, pinIds: ids, ...extras };
+}
+
+function samplePoints(points, max) {
+  if (points.length <= max) return points;
+  const step = (points.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => points[Math.round(i * step)]);
+}
+
+/** Marks every parsed pin/trip with the existing item it duplicates (if any). */
+function planImport(pins, trips, parsed) {
+  const pinItems = parsed.pins.map(pin => {
+    const dup = pins.find(p => p.id === pin.id) || pins.find(p =>
+      p.title.trim().toLowerCase() === pin.title.trim().toLowerCase() &&
+      distanceMeters(p.lngLat, pin.lngLat) <= DUPLICATE_RADIUS_M);
+    return { pin, duplicateOf: dup?.id || null, include: !dup };
+  });
+  const tripItems = parsed.trips.map(trip => {
+    const dup = trips.find(t => t.id === trip.id) || trips.find(t =>
+      t.name.trim().toLowerCase() === trip.name.trim().toLowerCase() && t.pinIds.length === trip.pinIds.length);
+    return { trip, duplicateOf: dup?.id || null, include: !dup };
+  });
+  return { format: parsed.format, pins: pinItems, trips: tripItems, categories: parsed.categories || [], currencies: parsed.currencies || [] };
+}
+
+/** Returns the checked items of an import plan as new pins/trips, remapping trip stops onto duplicates. */
+function applyImport(pins, trips, plan) {
+  const pinIdMap = new Map();
+  const takenPinIds = new Set(pins.map(p => p.id));
+  const newPins = [];
+  plan.pins.forEach(({ pin, duplicateOf, include }) => {
+    if (include) {
+      const id = takenPinIds.has(pin.id) ? crypto.randomUUID() : pin.id;
+      takenPinIds.add(id);
+      newPins.push({ ...pin, id });
+      pinIdMap.set(pin.id, id);
+    } else if (duplicateOf) {
+      pinIdMap.set(pin.id, duplicateOf);
+    }
+  });
+
+  const takenTripIds = new Set(trips.map(t => t.id));
+  const newTrips = plan.trips.filter(item => item.include).map(({ trip }) => {
+    const id = takenTripIds.has(trip.id) ? crypto.randomUUID() : trip.id;
+    takenTripIds.add(id);
+    const schedule = trip.schedule && Object.fromEntries(Object.entries(trip.schedule)
+      .filter(([pid]) => pinIdMap.has(pid)).map(([pid, times]) => [pinIdMap.get(pid), times]));
+    return { ...trip, id, pinIds: trip.pinIds.map(pid => pinIdMap.get(pid)).filter(Boolean), ...(schedule && { schedule }) };
+  });
+
+  return { pins: newPins, trips: newTrips };
+}
+
+const fileSlug = (name, fallback) => name.trim().replace(/[^\w-]+/g, "-").toLowerCase() || fallback;
+
+function downloadText(fileName, text, mime) {
+  downloadBlob(fileName, new Blob([text], { type: mime }));
+}
+
+function downloadBlob(fileName, blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// ==== Share links ====
+// A shared trip travels entirely in the URL fragment (#share=...), so no server is involved
+// and the data never reaches one: browsers do not send the fragment with the request.
+const SHARE_PARAM = "share";
+const SHARE_FORMAT_VERSION = 1;
+const MAX_SHARE_URL_LENGTH = 8000; // what browsers, chat apps and mail clients reliably keep intact
+const SHARE_FILE_SUFFIX = ".globeatlas.json"; // longer trips are shared as the payload in a file instead
+
+/** A trip with just the pins, categories and rates it needs. Attachments stay behind (they live in this browser). */
+function sharePayload(trip, pins, categories, currencies) {
+  const stops = trip.pinIds.map(id => pins.find(p => p.id === id)).filter(Boolean);
+  const keys = new Set(stops.map(p => p.category));
+  const codes = new Set([homeCurrency(currencies).code, trip.budget?.currency, ...stops.flatMap(p => (p.expenses || []).map(e => e.currency))]);
+  return {
+    v: SHARE_FORMAT_VERSION,
+    trip: { ...trip, pinIds: stops.map(p => p.id) },
+    pins: stops.map(p => {
+      const pin = { ...p };
+      delete pin.attachmentIds;
+      return pin;
+    }),
+    categories: categories.filter(c => keys.has(c.key)),
+    currencies: currencies.filter(c => codes.has(c.code))
+  };
+}
+
+async function encodeSharePayload(payload) {
+  const stream = new Blob([JSON.stringify(payload)]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Decodes and validates a shared trip into an atlas of one trip. */
+async function decodeSharePayload(encoded) {
+  let payload;
+  try {
+    const bytes = Uint8Array.from(atob(encoded.replace(/-/g, "+").replace(/_/g, "/")), c => c.charCodeAt(0));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+    payload = JSON.parse(await new Response(stream).text());
+  } catch {
+    throw new Error("This share link is damaged or incomplete. Ask for the link again.");
+  }
+  return readSharePayload(payload);
+}
+
+/** Validates a share payload, from a link or a shared trip file, into an atlas of one trip. */
+function readSharePayload(payload) {
+  if (payload?.v !== SHARE_FORMAT_VERSION) {
+    throw new Error("This shared trip was made by a different version of GlobeAtlas.");
+  }
+  const pins = (Array.isArray(payload.pins) ? payload.pins : []).map(normalizeImportedPin).filter(Boolean);
+  const source = payload.trip || {};
+  const pinIds = (Array.isArray(source.pinIds) ? source.pinIds : []).map(String).filter(id => pins.some(p => p.id === id));
+  if (!pinIds.length) throw new Error("This shared trip does not contain any stops.");
+  const categories = (Array.isArray(payload.categories) ? payload.categories : [])
+    .filter(c => c && typeof c.key === "string")
+    .map(c => ({ key: c.key, label: String(c.label || c.key), color: String(c.color || UNKNOWN_CATEGORY.color), icon: String(c.icon || UNKNOWN_CATEGORY.icon) }));
+  const currencies = (Array.isArray(payload.currencies) ? payload.currencies : [])
+    .filter(c => c && isCurrencyCode(c.code))
+    .map(c => ({ code: c.code, ...(Number(c.rate) > 0 ? { rate: Number(c.rate) } : {}), ...(c.home ? { home: true } : {}) }));
+  // Links and files are untrusted: only well-formed trip fields get through
+  const trip = {
+    id: String(source.id || crypto.randomUUID()), name: String(source.name || "Shared trip"),
+    color: DEFAULT_TRIP_COLOR, pinIds, ...importedTripExtras(source)
+  };
+  return { pins, trips: [trip], categories: withMissingCategories(categories, pins), currencies: withMissingCurrencies(currencies, pins, [trip]) };
+}
+
+const shareUrl = (encoded) => `${window.location.origin}${window.location.pathname}${window.location.search}#${SHARE_PARAM}=${encoded}`;
+const readShareFragment = (hash) => new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_PARAM) || null;
+
+/** Ops that add a shared trip to `mine` under fresh ids, plus any categories and currencies it is missing. */
+function shareCopyOps(shared, mine) {
+  const ids = new Map(shared.pins.map(p => [p.id, crypto.randomUUID()]));
+  const [source] = shared.trips;
+  const trip = {
+    ...source,
+    id: crypto.randomUUID(),
+    color: nextTripColor(mine.trips),
+    pinIds: source.pinIds.map(id => ids.get(id)),
+    ...(source.schedule && {
+      schedule: Object.fromEntries(Object.entries(source.schedule).filter(([id]) => ids.has(id)).map(([id, times]) => [ids.get(id), times]))
+    })
+  };
+  const categories = shared.categories.filter(c => !mine.categories.some(m => m.key === c.key));
+  const currencies = withMissingCurrencies(mine.currencies, shared.pins, shared.trips, shared.currencies).slice(mine.currencies.length);
+  return {
+    trip,
+    ops: [
+      ...categories.map((category, i) => ({ type: "category/add", category, index: mine.categories.length + i })),
+      ...currencies.map((currency, i) => ({ type: "currency/add", currency, index: mine.currencies.length + i })),
+      ...shared.pins.map((p, index) => ({ type: "pin/add", pin: { ...p, id: ids.get(p.id) }, index })),
+      { type: "trip/add", trip, index: 0 }
+    ]
+  };
+}
+
+// ==== Sync ====
+// Tabs (BroadcastChannel, or the storage event where that is missing) and the optional relay
+// exchange SyncChanges rather than whole atlases. Every field of every pin, trip, category and
+// currency carries the stamp of its last edit, so concurrent edits merge field by field and the
+// later edit of a field wins. List fields in SYNC_LIST_FIELDS (a pin's expenses) are stamped per
+// element, so two devices adding to the same list both keep their entries. Deletions leave tombstones and beat concurrent edits of the same
+// entity; re-creating it (e.g. undo) is a newer edit and brings it back.
+//
+// Relay protocol: JSON text messages { type: "hello" | "changes", replica, changes }. The server
+// forwards each message to every other connected client. A hello carries the sender's whole
+// atlas and is answered with the receiver's, so a relay without any storage is enough.
+
+/**
+ * @typedef {Object} SyncMeta
+ * @property {Object<string, Object<string, Object<string, string>>>} stamps // kind -> id -> field -> stamp
+ * @property {Object<string, Object<string, string>>} tombstones // kind -> id -> stamp of the deletion
+ */
+
+/**
+ * @typedef {Object} SyncChange
+ * @property {"pins"|"trips"|"categories"|"currencies"} kind
+ * @property {string} id
+ * @property {Object<string, string>} [stamps] // field -> stamp; a stamped field missing from values was removed
+ *   (list fields in SYNC_LIST_FIELDS are sent per element, as "expenses.<id>")
+ * @property {Object} [values]
+ * @property {boolean} [created] // values is the whole entity
+ * @property {number} [index] // position of a created entity in the sender's list
+ * @property {string} [deleted] // stamp of the deletion
+ */
+
+const SYNC_KINDS = { pins: "id", trips: "id", categories: "key", currencies: "code" }; // synced lists and their id field
+const LEGACY_STAMP = "0"; // fields last edited before sync existed; older than any real stamp
+
+export const emptySyncMeta = () => ({
+  stamps: { pins: {}, trips: {}, categories: {}, currencies: {} },
+  tombstones: { pins: {}, trips: {}, categories: {}, currencies: {} }
+});
+
+/**
+ * Hybrid logical clock. Stamps sort as strings: time, then a counter for edits within the same
+ * millisecond, then the replica id to break ties between devices.
+ */
+export function createSyncClock(replica) {
+  let last = { ms: 0, counter: 0 };
+  return {
+    replica,
+    next() {
+      const now = Date.now();
+      last = now > last.ms ? { ms: now, counter: 0 } : { ms: last.ms, counter: last.counter + 1 };
+      return `${last.ms.toString(36).padStart(9, "0")}.${last.counter.toString(36).padStart(4, "0")}.${replica}`;
+    },
+    // Seen stamps move the clock on, so a local edit always outranks what it was based on
+    observe(stamp) {
+      const [ms, counter] = stamp.split(".").map(part => parseInt(part, 36));
+      if (ms > last.ms || (ms === last.ms && counter > last.counter)) last = { ms, counter };
+    }
+  };
+}
+
+const stampTime = (stamp) => parseInt(stamp.split(".")[0], 36) || 0;
+const syncClock = createSyncClock(crypto.randomUUID().slice(0, 8));
+
+const sameValue = (a, b) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const SYNC_LIST_FIELDS = { pins: { expenses: "id" } }; // kind -> list field -> id field of its elements
+
+/** An entity with each synced list split into one `field.id` field per element. */
+function splitListFields(kind, entity) {
+  const lists = SYNC_LIST_FIELDS[kind];
+  if (!lists || !Object.keys(lists).some(f => Array.isArray(entity[f]))) return entity;
+  const split = {};
+  Object.entries(entity).forEach(([field, value]) => {
+    if (lists[field] && Array.isArray(value)) value.forEach(item => { split[`${field}.${item[lists[field]]}`] = item; });
+    else split[field] = value;
+  });
+  return split;
+}
+
+/** Reverses splitListFields; a list without elements is left unset. */
+function joinListFields(kind, split) {
+  const lists = SYNC_LIST_FIELDS[kind];
+  if (!lists) return split;
+  const entity = {};
+  Object.entries(split).forEach(([key, value]) => {
+    const dot = key.indexOf(".");
+    if (dot > 0 && lists[key.slice(0, dot)]) (entity[key.slice(0, dot)] ??= []).push(value);
+    else entity[key] = value;
+  });
+  return entity;
+}
+
+/** Splits whole lists sent by an app version before per-element sync; each element gets the list's stamp. */
+function splitListChange(change) {
+  if (!change.values) return change;
+  const values = splitListFields(change.kind, change.values);
+  if (values === change.values) return change;
+  const stamps = { ...change.stamps };
+  Object.keys(SYNC_LIST_FIELDS[change.kind]).forEach(field => {
+    if (!Array.isArray(change.values[field])) return;
+    Object.keys(values).filter(key => key.startsWith(`${field}.`)).forEach(key => { stamps[key] = change.stamps[field]; });
+    delete stamps[field];
+  });
+  return { ...change, values, stamps };
+}
+
+/** Local edits between two atlases as SyncChanges, each stamped with a fresh `stamp()`. */
+export function diffAtlas(prev, next, stamp) {
+  return Object.entries(SYNC_KINDS).flatMap(([kind, idField]) => {
+    if (prev[kind] === next[kind]) return [];
+    const before = new Map(prev[kind].map(e => [e[idField], e]));
+    const changes = [];
+    next[kind].forEach((entity, index) => {
+      const id = entity[idField];
+      const old = before.get(id);
+      before.delete(id);
+      if (old === entity) return;
+      const was = old && splitListFields(kind, old);
+      const now = splitListFields(kind, entity);
+      const fields = was
+        ? [...new Set([...Object.keys(was), ...Object.keys(now)])].filter(f => !sameValue(was[f], now[f]))
+        : Object.keys(now);
+      if (!fields.length) return;
+      const at = stamp();
+      changes.push({
+        kind, id, index,
+        ...(old ? {} : { created: true }),
+        stamps: Object.fromEntries(fields.map(f => [f, at])),
+        values: Object.fromEntries(fields.filter(f => f in now).map(f => [f, now[f]]))
+      });
+    });
+    before.forEach((_, id) => changes.push({ kind, id, deleted: stamp() }));
+    return changes;
+  });
+}
+
+/** A whole replica as SyncChanges, for a peer that has just joined. */
+export function snapshotChanges(atlas, meta) {
+  return Object.entries(SYNC_KINDS).flatMap(([kind, idField]) => [
+    ...atlas[kind].map((entity, index) => {
+      const own = meta.stamps[kind][entity[idField]] || {};
+      const values = splitListFields(kind, entity);
+      // Stamps of removed fields travel too, so the removal wins over older values elsewhere
+      const fields = new Set([...Object.keys(values), ...Object.keys(own)]);
+      return { kind, id: entity[idField], index, created: true, values,
+        stamps: Object.fromEntries([...fields].map(f => [f, own[f] || LEGACY_STAMP])) };
+    }),
+    ...Object.entries(meta.tombstones[kind]).map(([id, deleted]) => ({ kind, id, deleted }))
+  ]);
+}
+
+// Equal stamps only happen for legacy data; comparing the values keeps every replica agreeing
+const outranks = (stamp, current, value, old) =>
+  stamp > current || (stamp === current && (JSON.stringify(value) ?? "") > (JSON.stringify(old) ?? ""));
+
+/**
+ * Merges SyncChanges into a replica. Untouched entities keep their identity, and the atlas
+ * itself is returned unchanged when nothing visible changed.
+ * @returns {{ atlas: Object, meta: SyncMeta }}
+ */
+export function mergeChanges(atlas, meta, changes, clock) {
+  const lists = {};
+  const open = (kind) => lists[kind] ??= {
+    order: atlas[kind].map(e => e[SYNC_KINDS[kind]]),
+    byId: new Map(atlas[kind].map(e => [e[SYNC_KINDS[kind]], e])),
+    stamps: { ...meta.stamps[kind] },
+    tombstones: { ...meta.tombstones[kind] },
+    changed: false
+  };
+
+  for (const received of changes) {
+    if (!SYNC_KINDS[received.kind]) continue; // a list from a newer version of the app
+    const change = splitListChange(received);
+    const list = open(change.kind);
+    const idField = SYNC_KINDS[change.kind];
+    const { id } = change;
+    const current = list.byId.get(id);
+
+    if (change.deleted) {
+      clock.observe(change.deleted);
+      if (change.deleted <= (list.tombstones[id] || "")) continue;
+      list.tombstones[id] = change.deleted;
+      // Re-created after this deletion: keep it
+      if (!current || change.deleted <= (list.stamps[id]?.[idField] || LEGACY_STAMP)) continue;
+      list.byId.delete(id);
+      list.order = list.order.filter(other => other !== id);
+      delete list.stamps[id];
+      list.changed = true;
+      continue;
+    }
+
+    Object.values(change.stamps).forEach(stamp => clock.observe(stamp));
+    if (!current) {
+      // Edits of an entity this replica never had or has deleted since are dropped
+      if (!change.created || change.stamps[idField] <= (list.tombstones[id] || "")) continue;
+      list.byId.set(id, joinListFields(change.kind, change.values));
+      list.order.splice(Math.min(change.index ?? 0, list.order.length), 0, id);
+      list.stamps[id] = change.stamps;
+      delete list.tombstones[id];
+      list.changed = true;
+      continue;
+    }
+
+    const own = list.stamps[id] || {};
+    const entity = { ...splitListFields(change.kind, current) };
+    const fields = Object.keys(change.stamps)
+      .filter(f => outranks(change.stamps[f], own[f] || LEGACY_STAMP, change.values[f], entity[f]));
+    if (!fields.length) continue;
+    fields.forEach(f => { if (f in change.values) entity[f] = change.values[f]; else delete entity[f]; });
+    list.byId.set(id, joinListFields(change.kind, entity));
+    list.stamps[id] = { ...own, ...Object.fromEntries(fields.map(f => [f, change.stamps[f]])) };
+    list.changed = true;
+  }
+
+  let merged = atlas;
+  const nextMeta = { stamps: { ...meta.stamps }, tombstones: { ...meta.tombstones } };
+  Object.entries(lists).forEach(([kind, list]) => {
+    nextMeta.stamps[kind] = list.stamps;
+    nextMeta.tombstones[kind] = list.tombstones;
+    if (list.changed) merged = { ...merged, [kind]: list.order.map(id => list.byId.get(id)) };
+  });
+  return { atlas: merged, meta: nextMeta };
+}
+
+/** Drops tombstones older than `maxAgeMs`, so deleted ids do not pile up forever. */
+export function pruneTombstones(meta, maxAgeMs, now = Date.now()) {
+  const tombstones = Object.fromEntries(Object.entries(meta.tombstones).map(([kind, ids]) =>
+    [kind, Object.fromEntries(Object.entries(ids).filter(([, stamp]) => now - stampTime(stamp) < maxAgeMs))]));
+  return { ...meta, tombstones };
+}
+
+/**
+ * Connects this tab to its sibling tabs and, when configured, to the sync relay. Both start
+ * with a hello carrying `snapshot()`; `onMessage(msg, reply)` gets messages from other
+ * replicas, and `reply` answers on the link the message came from.
+ */
+export function createSyncTransport({ channel, serverUrl, reconnectMs, replica, snapshot, onMessage, onStatus }) {
+  const links = [];
+  const receiver = (send) => (msg) => {
+    if (!msg?.replica || msg.replica === replica) return;
+    onMessage(msg, (reply) => send({ ...reply, replica }));
+  };
+  const hello = () => ({ type: "hello", replica, changes: snapshot() });
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const bc = new BroadcastChannel(channel);
+    const send = (msg) => bc.postMessage(msg);
+    bc.onmessage = (e) => receiver(send)(e.data);
+    links.push({ send, close: () => bc.close() });
+  } else {
+    // Writing a key fires the storage event in every other tab of this origin
+    const send = (msg) => {
+      try { localStorage.setItem(LS_KEYS.sync, JSON.stringify({ ...msg, nonce: crypto.randomUUID() })); } catch {
+        // Over the quota: the other tabs get these edits with the next hello, when a tab opens
+      }
+    };
+    const onStorage = (e) => {
+      if (e.key !== LS_KEYS.sync || !e.newValue) return;
+      try { receiver(send)(JSON.parse(e.newValue)); } catch { /* not ours */ }
+    };
+    window.addEventListener("storage", onStorage);
+    links.push({ send, close: () => window.removeEventListener("storage", onStorage) });
+  }
+  links[0].send(hello());
+
+  if (serverUrl) {
+    let socket = null;
+    let retryTimer = null;
+    let delay = reconnectMs.min;
+    let closed = false;
+    const send = (msg) => { if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg)); };
+    const connect = () => {
+      onStatus("connecting");
+      socket = new WebSocket(serverUrl);
+      // Every (re)connect exchanges full atlases, which also delivers edits made while offline
+      socket.onopen = () => { delay = reconnectMs.min; onStatus("online"); send(hello()); };
+      socket.onmessage = (e) => {
+        let msg;
+        try { msg = JSON.parse(e.data); } catch { return; }
+        receiver(send)(msg);
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        onStatus("offline");
+        retryTimer = setTimeout(connect, delay);
+        delay = Math.min(delay * 2, reconnectMs.max);
+      };
+    };
+    connect();
+    links.push({ send, close: () => { closed = true; clearTimeout(retryTimer); socket?.close(); } });
+  }
+
+  return {
+    send: (msg) => links.forEach(link => link.send({ ...msg, replica })),
+    close: () => links.forEach(link => link.close())
+  };
+}
+
+// ==== Utilities ====
+function flyTo(lngLat, mapRef) {
+  const map = mapRef.current;
+  if (!map) return;
+  map.flyTo({ center: lngLat, zoom: 13, speed: 0.8, curve: 1.4, essential: true });
+}
+
+// Great-circle distance in metres between two [lng, lat] points (haversine)
+function distanceMeters(a, b) {
+  const R = 6371008.8;
+  const toRad = (d) => d * Math.PI / 180;
+  const dLat = toRad(b[1] - a[1]);
+  const dLng = toRad(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
 }
 
 function escapeHtml(unsafe) {
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createMapboxGeocoder, createNominatimGeocoder, withGeocodeCache } from "../Program";
+
+function stubFetch(handler) {
+  const fetch = vi.fn(async (url) => {
+    const { status = 200, body } = await handler(String(url));
+    return { ok: status >= 200 && status < 300, status, json: async () => body };
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+afterEach(() => { vi.unstubAllGlobals(); });
+
+describe("createMapboxGeocoder", () => {
+  const geocoder = createMapboxGeocoder({ accessToken: "tok" });
+  const feature = { id: "poi.1", text: "Helsinki Cathedral", place_name: "Helsinki Cathedral, Unioninkatu 29, Helsinki", center: [24.9522, 60.1705] };
+
+  it("parses search results and passes the proximity bias", async () => {
+    const fetch = stubFetch(() => ({ body: { features: [feature] } }));
+    const results = await geocoder.search("cathedral", { proximity: [24.94, 60.17] });
+    expect(results).toEqual([{ id: "poi.1", name: "Helsinki Cathedral", address: feature.place_name, lngLat: [24.9522, 60.1705] }]);
+    expect(fetch.mock.calls[0][0]).toContain("/cathedral.json?limit=5&proximity=24.9400,60.1700&access_token=tok");
+  });
+
+  it("returns null when reverse geocoding finds nothing", async () => {
+    stubFetch(() => ({ body: { features: [] } }));
+    expect(await geocoder.reverse([0, 0])).toBeNull();
+  });
+
+  it("allows autocomplete", () => {
+    expect(geocoder.autocomplete).toBe(true);
+  });
+});
+
+describe("createNominatimGeocoder", () => {
+  const geocoder = createNominatimGeocoder({ baseUrl: "http://localhost:8088/" });
+  const place = { place_id: 42, name: "", display_name: "Suomenlinna, Helsinki, Finland", lat: "60.1454", lon: "24.9881" };
+
+  it("parses search results, falling back to the first part of the display name", async () => {
+    const fetch = stubFetch(() => ({ body: [place] }));
+    const results = await geocoder.search("suomenlinna");
+    expect(results).toEqual([{ id: "42", name: "Suomenlinna", address: place.display_name, lngLat: [24.9881, 60.1454] }]);
+    expect(fetch.mock.calls[0][0]).toBe("http://localhost:8088/search?format=jsonv2&limit=5&q=suomenlinna");
+  });
+
+  it("parses a reverse result and treats an error body as no result", async () => {
+    stubFetch(url => ({ body: url.includes("lat=1") ? { error: "Unable to geocode" } : { ...place, name: "Suomenlinna fortress" } }));
+    expect(await geocoder.reverse([24.9881, 60.1454])).toMatchObject({ name: "Suomenlinna fortress" });
+    expect(await geocoder.reverse([0, 1])).toBeNull();
+  });
+
+  it("reports HTTP and network failures", async () => {
+    stubFetch(() => ({ status: 503, body: null }));
+    await expect(geocoder.search("x")).rejects.toThrow("Geocoding failed (HTTP 503).");
+    vi.stubGlobal("fetch", vi.fn(async () => { throw new TypeError("connection refused"); }));
+    await expect(geocoder.search("x")).rejects.toThrow("Cannot reach the geocoder: connection refused");
+  });
+
+  it("allows autocomplete only away from the public server", () => {
+    expect(geocoder.autocomplete).toBe(true);
+    expect(createNominatimGeocoder({ baseUrl: "https://nominatim.openstreetmap.org" }).autocomplete).toBe(false);
+  });
+});
+
+describe("withGeocodeCache", () => {
+  const provider = () => ({
+    label: "Fake",
+    autocomplete: false,
+    search: vi.fn(async (query) => [{ id: query, name: query, address: query, lngLat: [0, 0] }]),
+    reverse: vi.fn(async (lngLat) => ({ id: lngLat.join(), name: "here", address: "here", lngLat }))
+  });
+
+  it("keeps the provider's label and autocomplete flag", () => {
+    expect(withGeocodeCache(provider(), 10)).toMatchObject({ label: "Fake", autocomplete: false });
+  });
+
+  it("answers repeated lookups from the cache, ignoring case and accents", async () => {
+    const inner = provider();
+    const geocoder = withGeocodeCache(inner, 10);
+    await geocoder.search("Café");
+    await geocoder.search("cafe");
+    await geocoder.reverse([24.123456, 60.1]);
+    await geocoder.reverse([24.123456, 60.1]);
+    expect(inner.search).toHaveBeenCalledTimes(1);
+    expect(inner.reverse).toHaveBeenCalledTimes(1);
+  });
+
+  it("evicts the least recently used entry", async () => {
+    const inner = provider();
+    const geocoder = withGeocodeCache(inner, 2);
+    await geocoder.search("one");
+    await geocoder.search("two");
+    await geocoder.search("one"); // refreshes "one"
+    await geocoder.search("three"); // evicts "two"
+    await geocoder.search("one");
+    await geocoder.search("two");
+    expect(inner.search.mock.calls.map(([q]) => q)).toEqual(["one", "two", "three", "two"]);
+  });
+
+  it("does not cache failures", async () => {
+    const inner = provider();
+    inner.search.mockRejectedValueOnce(new Error("down"));
+    const geocoder = withGeocodeCache(inner, 10);
+    await expect(geocoder.search("retry")).rejects.toThrow("down");
+    await expect(geocoder.search("retry")).resolves.toHaveLength(1);
+    expect(inner.search).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects an aborted caller without cancelling the shared request", async () => {
+    let finish;
+    const inner = provider();
+    inner.search.mockImplementationOnce(() => new Promise(resolve => { finish = resolve; }));
+    const geocoder = withGeocodeCache(inner, 10);
+    const controller = new AbortController();
+    const aborted = geocoder.search("slow", { signal: controller.signal });
+    const other = geocoder.search("slow");
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    finish(["done"]);
+    await expect(other).resolves.toEqual(["done"]);
+    expect(inner.search).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects at once when the signal was already aborted", async () => {
+    const geocoder = withGeocodeCache(provider(), 10);
+    await expect(geocoder.reverse([1, 2], { signal: AbortSignal.abort() })).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { applyOp, invertOp } from "../Program";
+
+const atlasWith = (pinIds) => ({ pins: [], trips: [{ id: "t", name: "Trip", pinIds }], categories: [], currencies: [] });
+const stops = (atlas) => atlas.trips[0].pinIds;
+
+describe("trip stop operations", () => {
+  it("undoes a move by stop id after another device reordered the trip", () => {
+    // Local edit: move "c" to the front of a, b, c, d
+    const move = { type: "trip/movePin", tripId: "t", pinId: "c", from: 2, to: 0, fromAfter: "b", toAfter: null };
+    const moved = applyOp(atlasWith(["a", "b", "c", "d"]), move);
+    expect(stops(moved)).toEqual(["c", "a", "b", "d"]);
+
+    // A synced edit moves "d" ahead of "a"; undo must still return "c" right after "b"
+    const remote = atlasWith(["c", "d", "a", "b"]);
+    expect(stops(applyOp(remote, invertOp(move)))).toEqual(["d", "a", "b", "c"]);
+  });
+
+  it("restores a removed stop after the stop that preceded it", () => {
+    const remove = { type: "trip/removePin", tripId: "t", pinId: "b", index: 1, after: "a" };
+    const remote = atlasWith(["x", "y", "a", "c"]);
+    expect(stops(applyOp(remote, invertOp(remove)))).toEqual(["x", "y", "a", "b", "c"]);
+  });
+
+  it("falls back to the recorded index when the preceding stop is gone", () => {
+    const remove = { type: "trip/removePin", tripId: "t", pinId: "b", index: 1, after: "a" };
+    expect(stops(applyOp(atlasWith(["c", "d"]), invertOp(remove)))).toEqual(["c", "b", "d"]);
+    expect(stops(applyOp(atlasWith([]), invertOp(remove)))).toEqual(["b"]);
+  });
+
+  it("leaves the trip alone when the moved stop was removed elsewhere", () => {
+    const move = { type: "trip/movePin", tripId: "t", pinId: "c", from: 2, to: 0, fromAfter: "b", toAfter: null };
+    const atlas = atlasWith(["a", "b"]);
+    expect(stops(applyOp(atlas, invertOp(move)))).toEqual(["a", "b"]);
+  });
+
+  it("does not add a stop twice", () => {
+    const add = { type: "trip/addPin", tripId: "t", pinId: "a", index: 2, after: "b" };
+    expect(stops(applyOp(atlasWith(["a", "b"]), add))).toEqual(["b", "a"]);
+  });
+});
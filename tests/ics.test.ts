@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { foldICSLine } from "../Program";
+
+const octets = (s) => new TextEncoder().encode(s).length;
+
+describe("foldICSLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldICSLine("SUMMARY:Helsinki")).toBe("SUMMARY:Helsinki");
+    const exact = `SUMMARY:${"a".repeat(67)}`;
+    expect(foldICSLine(exact)).toBe(exact);
+  });
+
+  it("folds ASCII at 75 octets, counting the continuation space", () => {
+    const lines = foldICSLine(`DESCRIPTION:${"x".repeat(200)}`).split("\r\n");
+    expect(lines.map(octets)).toEqual([75, 75, 64]);
+    expect(lines.slice(1).every(l => l.startsWith(" "))).toBe(true);
+  });
+
+  it("folds multi-byte text by octets without splitting a character", () => {
+    const value = "ÄÖ€😀".repeat(30);
+    const line = `LOCATION:${value}`;
+    const lines = foldICSLine(line).split("\r\n");
+    expect(lines.every(l => octets(l) <= 75)).toBe(true);
+    expect(lines.some(l => l.includes("�"))).toBe(false);
+    expect(lines.map((l, i) => i ? l.slice(1) : l).join("")).toBe(line);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from "vitest";
+import { createMapboxEngine, createMapLibreEngine } from "../Program";
+
+const maplibre = vi.hoisted(() => ({ addProtocol: vi.fn() }));
+const mapbox = vi.hoisted(() => ({ accessToken: "" }));
+vi.mock("maplibre-gl", () => ({ default: maplibre }));
+vi.mock("mapbox-gl", () => ({ default: mapbox }));
+vi.mock("pmtiles", () => ({ Protocol: class { tile() {} } }));
+
+describe("map engines", () => {
+  it("load nothing until asked", () => {
+    createMapLibreEngine();
+    createMapboxEngine("token");
+    expect(maplibre.addProtocol).not.toHaveBeenCalled();
+    expect(mapbox.accessToken).toBe("");
+  });
+
+  it("register the pmtiles protocol once however many MapLibre engines load", async () => {
+    expect(await createMapLibreEngine().load()).toBe(maplibre);
+    await createMapLibreEngine("http://localhost/fonts/{fontstack}/{range}.pbf").load();
+    expect(maplibre.addProtocol).toHaveBeenCalledTimes(1);
+    expect(maplibre.addProtocol).toHaveBeenCalledWith("pmtiles", expect.any(Function));
+  });
+
+  it("set the Mapbox token when Mapbox loads", async () => {
+    expect(await createMapboxEngine("token").load()).toBe(mapbox);
+    expect(mapbox.accessToken).toBe("token");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from "vitest";
+import { createMapboxEngine, createMapLibreEngine, pinToFeature, updateFeatureSource } from "../Program";
+
+const PIN_COUNT = 10000;
+
+function makePins(count) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `pin-${i}`,
+    title: `Pin ${i}`,
+    category: "landmark",
+    status: "visited",
+    lngLat: [(i % 360) - 180, ((i * 7) % 170) - 85]
+  }));
+}
+
+function fakeSource() {
+  return { setData: vi.fn(), updateData: vi.fn() };
+}
+
+describe("updateFeatureSource", () => {
+  const engines = {
+    mapbox: createMapboxEngine("token"),
+    maplibre: createMapLibreEngine()
+  };
+
+  it("loads a new source with setData", () => {
+    const source = fakeSource();
+    const features = makePins(3).map(pinToFeature);
+    updateFeatureSource(source, features, { source: null, byId: new Map() }, engines.maplibre.updateGeoJSON);
+    expect(source.setData).toHaveBeenCalledWith({ type: "FeatureCollection", features });
+    expect(source.updateData).not.toHaveBeenCalled();
+  });
+
+  it.each(["mapbox", "maplibre"])("sends only the edited pin of %s 10k pins", (name) => {
+    const source = fakeSource();
+    const sent = { source: null, byId: new Map() };
+    const features = makePins(PIN_COUNT).map(pinToFeature);
+    updateFeatureSource(source, features, sent, engines[name].updateGeoJSON);
+
+    const edited = pinToFeature({ ...makePins(PIN_COUNT)[42], title: "Renamed" });
+    const next = features.map((f, i) => i === 42 ? edited : f);
+    updateFeatureSource(source, next, sent, engines[name].updateGeoJSON);
+
+    expect(source.setData).toHaveBeenCalledTimes(1);
+    expect(source.updateData).toHaveBeenCalledTimes(1);
+    const [diff] = source.updateData.mock.calls[0];
+    if (name === "mapbox") {
+      expect(diff).toEqual({ type: "FeatureCollection", features: [edited] });
+    } else {
+      expect(diff).toEqual({ add: [edited], remove: ["pin-42"] });
+    }
+  });
+
+  it("adds and removes single pins on MapLibre", () => {
+    const source = fakeSource();
+    const sent = { source: null, byId: new Map() };
+    const features = makePins(10).map(pinToFeature);
+    updateFeatureSource(source, features, sent, engines.maplibre.updateGeoJSON);
+    const added = pinToFeature(makePins(11)[10]);
+    updateFeatureSource(source, [...features.slice(1), added], sent, engines.maplibre.updateGeoJSON);
+    expect(source.updateData).toHaveBeenCalledWith({ add: [added], remove: ["pin-0"] });
+  });
+
+  it("falls back to setData for removals on Mapbox", () => {
+    const source = fakeSource();
+    const sent = { source: null, byId: new Map() };
+    const features = makePins(10).map(pinToFeature);
+    updateFeatureSource(source, features, sent, engines.mapbox.updateGeoJSON);
+    updateFeatureSource(source, features.slice(1), sent, engines.mapbox.updateGeoJSON);
+    expect(source.updateData).not.toHaveBeenCalled();
+    expect(source.setData).toHaveBeenLastCalledWith({ type: "FeatureCollection", features: features.slice(1) });
+  });
+
+  it("sends nothing when nothing changed", () => {
+    const source = fakeSource();
+    const sent = { source: null, byId: new Map() };
+    const features = makePins(10).map(pinToFeature);
+    updateFeatureSource(source, features, sent, engines.maplibre.updateGeoJSON);
+    updateFeatureSource(source, [...features], sent, engines.maplibre.updateGeoJSON);
+    expect(source.setData).toHaveBeenCalledTimes(1);
+    expect(source.updateData).not.toHaveBeenCalled();
+  });
+
+  it("starts over with setData when the style recreated the source", () => {
+    const sent = { source: null, byId: new Map() };
+    const features = makePins(10).map(pinToFeature);
+    updateFeatureSource(fakeSource(), features, sent, engines.maplibre.updateGeoJSON);
+    const recreated = fakeSource();
+    updateFeatureSource(recreated, features, sent, engines.maplibre.updateGeoJSON);
+    expect(recreated.setData).toHaveBeenCalledTimes(1);
+  });
+});
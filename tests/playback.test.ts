@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { advancePlayback, buildPlaybackTimeline, playbackFrame } from "../Program";
+
+const CONFIG = { legMs: 1000, dwellMs: 500, stopZoom: 12 };
+const stops = [
+  { id: "a", title: "A", lngLat: [0, 0] },
+  { id: "b", title: "B", lngLat: [1, 0] },
+  { id: "c", title: "C", lngLat: [2, 0] }
+];
+
+describe("buildPlaybackTimeline", () => {
+  it("alternates dwell and travel segments in stop order", () => {
+    const timeline = buildPlaybackTimeline(stops, null, CONFIG);
+    expect(timeline.segments.map(s => [s.kind, s.index, s.start, s.end])).toEqual([
+      ["stop", 0, 0, 500],
+      ["leg", 0, 500, 1500],
+      ["stop", 1, 1500, 2000],
+      ["leg", 1, 2000, 3000],
+      ["stop", 2, 3000, 3500]
+    ]);
+    expect(timeline.duration).toBe(3500);
+    expect(timeline.legs.map(l => l.path)).toEqual([[[0, 0], [1, 0]], [[1, 0], [2, 0]]]);
+  });
+
+  it("follows the routed geometry between stops", () => {
+    const routed = [[0, 0], [0.5, 0.5], [1, 0], [2, 0]];
+    const timeline = buildPlaybackTimeline(stops, routed, CONFIG);
+    expect(timeline.legs[0].path).toEqual([[0, 0], [0.5, 0.5], [1, 0]]);
+    expect(timeline.legs[0].length).toBeGreaterThan(timeline.legs[1].length);
+  });
+});
+
+describe("playbackFrame", () => {
+  const timeline = buildPlaybackTimeline(stops, null, CONFIG);
+
+  it("dwells on the first stop at the start", () => {
+    const frame = playbackFrame(timeline, 0);
+    expect(frame).toMatchObject({ atStop: true, stopIndex: 0, center: [0, 0], zoom: 12, drawn: [] });
+    expect(frame.stop.id).toBe("a");
+  });
+
+  it("is halfway along a leg, zoomed out, halfway through its time", () => {
+    const frame = playbackFrame(timeline, 1000);
+    expect(frame.atStop).toBe(false);
+    expect(frame.stopIndex).toBe(0);
+    expect(frame.center[0]).toBeCloseTo(0.5, 6);
+    expect(frame.center[1]).toBeCloseTo(0, 6);
+    expect(frame.zoom).toBeLessThan(12);
+    expect(frame.drawn[0]).toEqual([0, 0]);
+    expect(frame.drawn[frame.drawn.length - 1][0]).toBeCloseTo(0.5, 6);
+  });
+
+  it("has drawn the finished legs while dwelling on a later stop", () => {
+    const frame = playbackFrame(timeline, 1600);
+    expect(frame).toMatchObject({ atStop: true, stopIndex: 1, center: [1, 0] });
+    expect(frame.drawn).toEqual([[0, 0], [1, 0]]);
+  });
+
+  it("clamps times outside the timeline", () => {
+    expect(playbackFrame(timeline, -100)).toMatchObject({ time: 0, stopIndex: 0 });
+    expect(playbackFrame(timeline, 99999)).toMatchObject({ time: 3500, stopIndex: 2, progress: 1, atStop: true });
+  });
+});
+
+describe("advancePlayback", () => {
+  const timeline = buildPlaybackTimeline(stops, null, CONFIG);
+
+  it("does not move while paused", () => {
+    const state = { t: 200, playing: false, speed: 1 };
+    expect(advancePlayback(state, 16, timeline)).toBe(state);
+  });
+
+  it("scales elapsed time by the speed", () => {
+    expect(advancePlayback({ t: 0, playing: true, speed: 2 }, 100, timeline)).toEqual({ t: 200, playing: true, speed: 2 });
+  });
+
+  it("stops playing at the end", () => {
+    expect(advancePlayback({ t: 3400, playing: true, speed: 1 }, 500, timeline)).toEqual({ t: 3500, playing: false, speed: 1 });
+  });
+
+  it("steps deterministically through every stop at a fixed frame rate", () => {
+    let state = { t: 0, playing: true, speed: 1 };
+    const visited = [];
+    let frames = 0;
+    while (state.playing) {
+      state = advancePlayback(state, 50, timeline);
+      const frame = playbackFrame(timeline, state.t);
+      if (frame.atStop && visited[visited.length - 1] !== frame.stopIndex) visited.push(frame.stopIndex);
+      frames++;
+    }
+    expect(frames).toBe(70);
+    expect(visited).toEqual([0, 1, 2]);
+  });
+});
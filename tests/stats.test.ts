@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { categoryTotals, furthestPair, pinsByPeriod, visitedCountries } from "../Program";
+
+const pin = (id, lngLat, fields = {}) => ({ id, title: id, category: "landmark", status: "visited", lngLat, ...fields });
+
+describe("pinsByPeriod", () => {
+  it("fills the months without pins, across a year boundary", () => {
+    const pins = [
+      pin("a", [0, 0], { date: "2025-11-03" }),
+      pin("b", [0, 0], { date: "2026-02-14" }),
+      pin("c", [0, 0], { date: "2026-02-20" }),
+      pin("undated", [0, 0])
+    ];
+    expect(pinsByPeriod(pins, "month")).toEqual([
+      { period: "2025-11", count: 1 },
+      { period: "2025-12", count: 0 },
+      { period: "2026-01", count: 0 },
+      { period: "2026-02", count: 2 }
+    ]);
+  });
+
+  it("fills the years without pins", () => {
+    const pins = [pin("a", [0, 0], { date: "2023-06-01" }), pin("b", [0, 0], { date: "2025-01-01" })];
+    expect(pinsByPeriod(pins, "year").map(p => [p.period, p.count])).toEqual([["2023", 1], ["2024", 0], ["2025", 1]]);
+  });
+
+  it("is empty without dated pins", () => {
+    expect(pinsByPeriod([pin("a", [0, 0])], "month")).toEqual([]);
+  });
+});
+
+describe("furthestPair", () => {
+  it("measures across the antimeridian rather than around the globe", () => {
+    // Fiji and Samoa are close across 180°, so the furthest pair includes Helsinki
+    const fiji = pin("fiji", [178.4, -18.1]);
+    const samoa = pin("samoa", [-171.8, -13.8]);
+    const helsinki = pin("helsinki", [24.9, 60.2]);
+    const pair = furthestPair([fiji, samoa, helsinki]);
+    expect([pair.a.id, pair.b.id]).toContain("helsinki");
+    expect(furthestPair([fiji, samoa]).distance).toBeLessThan(1200000);
+  });
+
+  it("pairs a far outlier with a dense cluster of pins", () => {
+    const pins = Array.from({ length: 400 }, (_, i) => pin(`p${i}`, [24 + (i * 37 % 100) / 50, 60 + (i * 53 % 100) / 100]));
+    const far = pin("far", [-70.6, -33.4]);
+    const pair = furthestPair([...pins, far]);
+    expect([pair.a.id, pair.b.id]).toContain("far");
+  });
+
+  it("needs two pins", () => {
+    expect(furthestPair([pin("a", [0, 0])])).toBeNull();
+  });
+});
+
+describe("visitedCountries", () => {
+  it("counts only visited pins", () => {
+    const pins = [
+      pin("helsinki", [24.94, 60.17]),
+      pin("turku", [22.27, 60.45]),
+      pin("stockholm", [18.07, 59.33]),
+      pin("oslo", [10.75, 59.91], { status: "wishlist" }),
+      pin("tampere", [23.76, 61.5], { status: "planned" })
+    ];
+    expect(visitedCountries(pins).map(c => [c.name, c.count])).toEqual([["Finland", 2], ["Sweden", 1]]);
+  });
+});
+
+describe("categoryTotals", () => {
+  it("counts pins per category", () => {
+    expect(categoryTotals([pin("a", [0, 0]), pin("b", [0, 0], { category: "food" }), pin("c", [0, 0])])).toEqual({ landmark: 2, food: 1 });
+  });
+});
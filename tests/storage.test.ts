@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer } from "node:http";
+import { createAtlasStorage, migrateAtlas } from "../Program";
+
+describe("migrateAtlas", () => {
+  it("upgrades a pre-versioned document to the current schema", () => {
+    const legacy = { pins: [{ id: "p1", title: "Sauna", category: "sauna", lngLat: [24.9, 60.1] }], trips: [{ id: "t1", name: "Trip", pinIds: ["p1"] }] };
+    const doc = migrateAtlas(legacy);
+    expect(doc.schemaVersion).toBe(6);
+    expect(doc.pins[0].status).toBe("visited");
+    expect(doc.trips[0].color).toMatch(/^#[0-9a-f]{6}$/i);
+    expect(doc.categories.map(c => c.key)).toContain("sauna");
+    expect(doc.currencies).toEqual([{ code: "EUR", rate: 1, home: true }]);
+    expect(doc.sync.stamps.currencies).toEqual({});
+    expect(doc.sync.tombstones.currencies).toEqual({});
+  });
+
+  it("keeps what a newer step would otherwise fill in", () => {
+    const doc = migrateAtlas({ schemaVersion: 4, pins: [{ id: "p1", status: "wishlist" }], trips: [], categories: [], sync: { stamps: { pins: {} }, tombstones: { pins: {} } } });
+    expect(doc.pins[0].status).toBe("wishlist");
+    expect(doc.sync.stamps).toEqual({ pins: {}, currencies: {} });
+  });
+
+  it("returns a current document unchanged", () => {
+    const doc = { schemaVersion: 6, pins: [], trips: [], categories: [], currencies: [] };
+    expect(migrateAtlas(doc)).toBe(doc);
+  });
+
+  it("rejects documents from a newer app and malformed documents", () => {
+    expect(() => migrateAtlas({ schemaVersion: 99 })).toThrow("schema version 99");
+    expect(() => migrateAtlas({ schemaVersion: 6, pins: {}, trips: [], categories: [], currencies: [] })).toThrow("malformed");
+  });
+});
+
+describe("REST storage", () => {
+  let server;
+  let baseUrl;
+  let stored = null;
+  let failWith = null;
+
+  beforeAll(async () => {
+    // A mock of the documented API: GET and PUT /atlas
+    server = createServer((req, res) => {
+      if (failWith) return res.writeHead(failWith).end();
+      if (req.url !== "/atlas") return res.writeHead(404).end();
+      if (req.method === "PUT") {
+        let body = "";
+        req.on("data", chunk => { body += chunk; });
+        req.on("end", () => { stored = body; res.writeHead(204).end(); });
+        return;
+      }
+      if (stored === null) return res.writeHead(404).end();
+      res.writeHead(200, { "Content-Type": "application/json" }).end(stored);
+    });
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}/`;
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  it("loads nothing from an empty server, then round-trips a saved document", async () => {
+    const storage = createAtlasStorage({ backend: "rest", restUrl: baseUrl });
+    expect(storage.label).toBe("Synced to API");
+    expect(await storage.load()).toBeNull();
+    const doc = { schemaVersion: 6, pins: [{ id: "p1", title: "Café" }], trips: [], categories: [], currencies: [] };
+    await storage.save(doc);
+    expect(await storage.load()).toEqual(doc);
+  });
+
+  it("reports HTTP errors and invalid JSON", async () => {
+    const storage = createAtlasStorage({ backend: "rest", restUrl: baseUrl });
+    failWith = 500;
+    await expect(storage.load()).rejects.toThrow(`Loading from ${baseUrl}atlas failed (HTTP 500).`);
+    await expect(storage.save({})).rejects.toThrow("failed (HTTP 500)");
+    failWith = null;
+    stored = "{not json";
+    await expect(storage.load()).rejects.toThrow("did not return valid JSON");
+  });
+
+  it("reports an unreachable server", async () => {
+    const storage = createAtlasStorage({ backend: "rest", restUrl: "http://127.0.0.1:9" });
+    await expect(storage.load()).rejects.toThrow("Cannot reach http://127.0.0.1:9/atlas");
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import WebSocket, { WebSocketServer } from "ws";
+import { createSyncClock, createSyncTransport, diffAtlas, emptySyncMeta, mergeChanges, pruneTombstones, snapshotChanges } from "../Program";
+
+const pin = (id, fields = {}) => ({ id, title: id, description: "", category: "landmark", date: "2026-05-01", lngLat: [24.9, 60.1], status: "visited", ...fields });
+const atlasOf = (pins, trips = []) => ({ pins, trips, categories: [], currencies: [] });
+
+/** A replica as the app keeps it: the atlas and its sync metadata. */
+function replica(name, atlas) {
+  const clock = createSyncClock(name);
+  return { clock, atlas, meta: mergeChanges(atlasOf([]), emptySyncMeta(), snapshotChanges(atlas, emptySyncMeta()), clock).meta };
+}
+
+/** Records a local edit on a replica and returns the changes to send to its peers. */
+function edit(r, next) {
+  const changes = diffAtlas(r.atlas, next, r.clock.next);
+  r.meta = mergeChanges(r.atlas, r.meta, changes, r.clock).meta;
+  r.atlas = next;
+  return changes;
+}
+
+function receive(r, changes) {
+  const merged = mergeChanges(r.atlas, r.meta, changes, r.clock);
+  r.atlas = merged.atlas;
+  r.meta = merged.meta;
+}
+
+describe("diffAtlas", () => {
+  it("stamps only the fields that changed, plus creations and deletions", () => {
+    const clock = createSyncClock("a");
+    const before = atlasOf([pin("p1"), pin("p2")]);
+    const after = atlasOf([pin("p1", { title: "Renamed" }), pin("p3")]);
+    const changes = diffAtlas(before, after, clock.next);
+    expect(changes).toHaveLength(3);
+    expect(changes[0]).toMatchObject({ kind: "pins", id: "p1", values: { title: "Renamed" } });
+    expect(Object.keys(changes[0].stamps)).toEqual(["title"]);
+    expect(changes[1]).toMatchObject({ kind: "pins", id: "p3", created: true, index: 1 });
+    expect(changes[2]).toMatchObject({ kind: "pins", id: "p2" });
+    expect(typeof changes[2].deleted).toBe("string");
+  });
+
+  it("returns nothing for an unchanged atlas", () => {
+    const atlas = atlasOf([pin("p1")]);
+    expect(diffAtlas(atlas, { ...atlas, pins: [...atlas.pins] }, createSyncClock("a").next)).toEqual([]);
+  });
+});
+
+describe("mergeChanges", () => {
+  it("keeps concurrent edits to different fields of the same pin", () => {
+    const base = atlasOf([pin("p1")]);
+    const a = replica("a", base);
+    const b = replica("b", base);
+    const fromA = edit(a, atlasOf([pin("p1", { title: "From A" })]));
+    const fromB = edit(b, atlasOf([pin("p1", { description: "From B" })]));
+    receive(a, fromB);
+    receive(b, fromA);
+    expect(a.atlas.pins[0]).toMatchObject({ title: "From A", description: "From B" });
+    expect(b.atlas).toEqual(a.atlas);
+  });
+
+  it("lets the later edit of the same field win in either order", () => {
+    const base = atlasOf([pin("p1")]);
+    const a = replica("a", base);
+    const b = replica("b", base);
+    const first = edit(a, atlasOf([pin("p1", { title: "Earlier" })]));
+    b.clock.observe(first[0].stamps.title);
+    const second = edit(b, atlasOf([pin("p1", { title: "Later" })]));
+    receive(a, second);
+    receive(b, first);
+    expect(a.atlas.pins[0].title).toBe("Later");
+    expect(b.atlas.pins[0].title).toBe("Later");
+  });
+
+  it("lets a deletion beat an older concurrent edit, and a later re-creation beat the deletion", () => {
+    const base = atlasOf([pin("p1")]);
+    const a = replica("a", base);
+    const b = replica("b", base);
+    const editB = edit(b, atlasOf([pin("p1", { title: "Edited" })]));
+    const deleteA = edit(a, atlasOf([]));
+    receive(a, editB);
+    receive(b, deleteA);
+    expect(a.atlas.pins).toEqual([]);
+    expect(b.atlas.pins).toEqual([]);
+
+    const undoA = edit(a, atlasOf([pin("p1")]));
+    receive(b, undoA);
+    expect(b.atlas.pins.map(p => p.id)).toEqual(["p1"]);
+  });
+
+  it("keeps expenses added to the same pin on two devices", () => {
+    const base = atlasOf([pin("p1", { expenses: [{ id: "e0", amount: 1, currency: "EUR", category: "food" }] })]);
+    const a = replica("a", base);
+    const b = replica("b", base);
+    const add = (r, id) => edit(r, atlasOf([{ ...r.atlas.pins[0], expenses: [...r.atlas.pins[0].expenses, { id, amount: 2, currency: "EUR", category: "food" }] }]));
+    const fromA = add(a, "ea");
+    const fromB = add(b, "eb");
+    receive(a, fromB);
+    receive(b, fromA);
+    expect(a.atlas.pins[0].expenses.map(e => e.id).sort()).toEqual(["e0", "ea", "eb"]);
+    expect(b.atlas.pins[0].expenses.map(e => e.id).sort()).toEqual(["e0", "ea", "eb"]);
+  });
+
+  it("returns the same atlas when nothing visible changed and skips unknown lists", () => {
+    const r = replica("a", atlasOf([pin("p1")]));
+    const stale = snapshotChanges(r.atlas, r.meta);
+    const unknown = [{ kind: "photos", id: "x", created: true, stamps: { id: "1" }, values: { id: "x" } }];
+    expect(mergeChanges(r.atlas, r.meta, [...stale, ...unknown], r.clock).atlas).toBe(r.atlas);
+  });
+});
+
+describe("pruneTombstones", () => {
+  it("drops tombstones older than the maximum age", () => {
+    const clock = createSyncClock("a");
+    const now = Date.now();
+    vi.useFakeTimers({ now: now - 10 * 24 * 60 * 60 * 1000 });
+    const old = clock.next();
+    vi.useRealTimers();
+    const recent = createSyncClock("b").next();
+    const meta = { ...emptySyncMeta(), tombstones: { ...emptySyncMeta().tombstones, pins: { gone: old, recent } } };
+    const pruned = pruneTombstones(meta, 5 * 24 * 60 * 60 * 1000, now);
+    expect(pruned.tombstones.pins).toEqual({ recent });
+    expect(pruned.stamps).toBe(meta.stamps);
+  });
+});
+
+describe("createSyncTransport with a relay", () => {
+  let server;
+  let url;
+
+  beforeAll(async () => {
+    // The relay protocol needs no storage: forward every message to every other client
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", socket => socket.on("message", data => {
+      server.clients.forEach(client => { if (client !== socket && client.readyState === WebSocket.OPEN) client.send(data.toString()); });
+    }));
+    await new Promise(resolve => server.on("listening", resolve));
+    url = `ws://localhost:${server.address().port}`;
+    vi.stubGlobal("WebSocket", WebSocket);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    server.close();
+  });
+
+  it("exchanges atlases on connect and forwards later changes", async () => {
+    const inbox = { a: [], b: [] };
+    const open = (name, changes) => {
+      let ready;
+      const online = new Promise(resolve => { ready = resolve; });
+      const transport = createSyncTransport({
+        // Separate channels, so only the relay connects the two
+        channel: `test-${name}`,
+        serverUrl: url,
+        reconnectMs: { min: 50, max: 100 },
+        replica: name,
+        snapshot: () => changes,
+        onMessage: (msg, reply) => {
+          inbox[name].push(msg);
+          if (msg.type === "hello") reply({ type: "changes", changes });
+        },
+        onStatus: status => { if (status === "online") ready(); }
+      });
+      return { transport, online };
+    };
+    const helloA = snapshotChanges(atlasOf([pin("pa")]), emptySyncMeta());
+    const helloB = snapshotChanges(atlasOf([pin("pb")]), emptySyncMeta());
+    const a = open("a", helloA);
+    await a.online;
+    const b = open("b", helloB);
+    await b.online;
+
+    await vi.waitFor(() => {
+      expect(inbox.a.find(m => m.type === "hello")?.changes).toEqual(helloB);
+      expect(inbox.b.find(m => m.type === "changes")?.changes).toEqual(helloA);
+    });
+
+    const edit = [{ kind: "pins", id: "pa", stamps: { title: "1" }, values: { title: "Edited" } }];
+    a.transport.send({ type: "changes", changes: edit });
+    await vi.waitFor(() => expect(inbox.b.at(-1)).toEqual({ type: "changes", changes: edit, replica: "a" }));
+
+    a.transport.close();
+    b.transport.close();
+  });
+});